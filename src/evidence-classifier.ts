@@ -0,0 +1,93 @@
+import { PubMedEvidenceLevel, PubMedPublicationType } from "./types.js";
+
+/**
+ * Evidence levels ordered from strongest to weakest. Unclassified records,
+ * mostly original research tagged only "Journal Article", rank above opinion
+ * pieces so that they are not sorted after editorials and letters.
+ */
+const EVIDENCE_LEVELS: readonly PubMedEvidenceLevel[] = [
+  "systematic-review",
+  "rct",
+  "clinical-trial",
+  "cohort",
+  "case-report",
+  "unclassified",
+  "opinion",
+];
+
+/**
+ * PubMed publication type names (lowercase) mapped to the evidence level they indicate.
+ * See https://www.nlm.nih.gov/mesh/pubtypes.html for the full list of publication types.
+ */
+const PUBLICATION_TYPE_LEVELS: Readonly<Record<string, PubMedEvidenceLevel>> = {
+  "meta-analysis": "systematic-review",
+  "systematic review": "systematic-review",
+  "randomized controlled trial": "rct",
+  "randomized controlled trial, veterinary": "rct",
+  "equivalence trial": "rct",
+  "clinical trial": "clinical-trial",
+  "clinical trial, phase i": "clinical-trial",
+  "clinical trial, phase ii": "clinical-trial",
+  "clinical trial, phase iii": "clinical-trial",
+  "clinical trial, phase iv": "clinical-trial",
+  "clinical trial, veterinary": "clinical-trial",
+  "controlled clinical trial": "clinical-trial",
+  "pragmatic clinical trial": "clinical-trial",
+  "adaptive clinical trial": "clinical-trial",
+  "observational study": "cohort",
+  "observational study, veterinary": "cohort",
+  "twin study": "cohort",
+  "case reports": "case-report",
+  editorial: "opinion",
+  comment: "opinion",
+  letter: "opinion",
+};
+
+/**
+ * Classifier deriving an evidence level from PubMed publication types.
+ *
+ * An article is assigned the strongest level indicated by any of its
+ * publication types, e.g. a "Randomized Controlled Trial" that is also a
+ * "Comment" is classified as `rct`.
+ */
+export class PubMedEvidenceClassifier {
+  /**
+   * Derive the evidence level of an article from its publication types.
+   *
+   * @param publicationTypes - The publication types of the article
+   * @returns The strongest evidence level indicated, or "unclassified"
+   */
+  classify(publicationTypes: PubMedPublicationType[]): PubMedEvidenceLevel {
+    const levels = publicationTypes
+      .map((type) => PUBLICATION_TYPE_LEVELS[type.name.toLowerCase()])
+      .filter((level): level is PubMedEvidenceLevel => level !== undefined);
+
+    if (levels.length === 0) {
+      return "unclassified";
+    }
+    return levels.reduce((strongest, level) =>
+      this.rank(level) < this.rank(strongest) ? level : strongest
+    );
+  }
+
+  /**
+   * Position of an evidence level in the hierarchy (0 is strongest).
+   *
+   * @param level - The evidence level
+   * @returns The rank of the level
+   */
+  rank(level: PubMedEvidenceLevel): number {
+    return EVIDENCE_LEVELS.indexOf(level);
+  }
+
+  /**
+   * Check whether an evidence level is at least as strong as a minimum level.
+   *
+   * @param level - The evidence level to check
+   * @param minLevel - The minimum evidence level
+   * @returns True if the level meets the minimum
+   */
+  meets(level: PubMedEvidenceLevel, minLevel: PubMedEvidenceLevel): boolean {
+    return this.rank(level) <= this.rank(minLevel);
+  }
+}
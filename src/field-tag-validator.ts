@@ -0,0 +1,150 @@
+import { PubMedDatabaseInfo } from "./types.js";
+
+/**
+ * Documented PubMed field tags, some of which EInfo lists only by their full
+ * name or not at all, e.g. [mesh], [sb] and [1au].
+ * See https://pubmed.ncbi.nlm.nih.gov/help/#search-tags
+ */
+const DOCUMENTED_FIELD_TAGS: readonly string[] = [
+  "1au",
+  "ad",
+  "aid",
+  "all",
+  "au",
+  "auid",
+  "book",
+  "cn",
+  "cois",
+  "crdt",
+  "dcom",
+  "dp",
+  "ed",
+  "edat",
+  "fau",
+  "filter",
+  "fir",
+  "gr",
+  "ip",
+  "ir",
+  "isbn",
+  "ja",
+  "jid",
+  "jour",
+  "la",
+  "lastau",
+  "lid",
+  "lr",
+  "majr",
+  "mdat",
+  "mh",
+  "mhda",
+  "mesh",
+  "nm",
+  "ot",
+  "pa",
+  "pdat",
+  "pg",
+  "pl",
+  "pmid",
+  "ps",
+  "pt",
+  "pubn",
+  "rn",
+  "sb",
+  "sh",
+  "si",
+  "ta",
+  "ti",
+  "tiab",
+  "tt",
+  "tw",
+  "uid",
+  "vi",
+];
+
+/**
+ * Quoted phrases, whose brackets are part of the searched text.
+ */
+const QUOTED_PHRASE_PATTERN = /"[^"]*"/g;
+
+/**
+ * Field tags in a term string, e.g. [tiab], [MeSH Terms] or [mh:noexp].
+ */
+const FIELD_TAG_PATTERN = /\[([^\]]*)\]/g;
+
+/**
+ * Checks the field tags of PubMed term strings against the search fields of a
+ * database, so that queries with misspelled tags can be rejected before they
+ * are sent to ESearch. PubMed silently ignores unknown tags and searches the
+ * tagged text in all fields, which gives misleading results.
+ *
+ * @example
+ * ```typescript
+ * const validator = new PubMedFieldTagValidator(
+ *   await wrapper.getDatabaseInfo()
+ * );
+ *
+ * validator.findUnknownTags("asthma[mh] AND child[tiabs]");
+ * // ["tiabs"]
+ * ```
+ */
+export class PubMedFieldTagValidator {
+  private readonly knownTags: Set<string>;
+
+  /**
+   * @param info - The database description from EInfo
+   */
+  constructor(info: PubMedDatabaseInfo) {
+    this.knownTags = new Set(
+      [
+        ...DOCUMENTED_FIELD_TAGS,
+        ...info.fields.flatMap((field) => [field.name, field.fullName]),
+      ].map((tag) => this.normalize(tag))
+    );
+  }
+
+  /**
+   * Find the field tags of a term string that the database does not know.
+   * Tag modifiers such as `[mh:noexp]` or `[tiab:~3]` are ignored, and so are
+   * brackets inside quoted phrases.
+   *
+   * @param query - The term string
+   * @returns The unknown tags in order of appearance, without duplicates
+   */
+  findUnknownTags(query: string): string[] {
+    const unknownTags = new Set<string>();
+    const unquoted = query.replace(QUOTED_PHRASE_PATTERN, " ");
+
+    for (const [, tag] of unquoted.matchAll(FIELD_TAG_PATTERN)) {
+      const fieldName = tag.split(":")[0];
+      if (!this.knownTags.has(this.normalize(fieldName))) {
+        unknownTags.add(tag.trim());
+      }
+    }
+
+    return [...unknownTags];
+  }
+
+  /**
+   * Check that every field tag of a term string is known to the database.
+   *
+   * @param query - The term string
+   * @throws Error listing the unknown field tags
+   */
+  validate(query: string): void {
+    const unknownTags = this.findUnknownTags(query);
+    if (unknownTags.length > 0) {
+      throw new Error(
+        `Unknown PubMed field tag${unknownTags.length > 1 ? "s" : ""}: ` +
+          unknownTags.map((tag) => `[${tag}]`).join(", ")
+      );
+    }
+  }
+
+  /**
+   * Compare tags case-insensitively and ignore surrounding whitespace.
+   */
+  private normalize(tag: string): string {
+    return tag.toLowerCase().replace(/\s+/g, " ").trim();
+  }
+}
@@ -6,6 +6,7 @@
  *
  * Main exports:
  * - {@link PubMedTool} - LangChain Tool for searching PubMed (recommended for most users)
+ * - {@link PubMedSimilarArticlesTool} - LangChain Tool listing articles similar to a given PMID
  * - {@link PubMedAPIWrapper} - Lower-level wrapper for advanced use cases
  *
  * @packageDocumentation
@@ -14,23 +15,109 @@
 // Main Tool export - most users will use this
 export { PubMedTool } from "./pubmed-tool.js";
 
+// Tool expanding a search from a known article
+export { PubMedSimilarArticlesTool } from "./similar-articles-tool.js";
+
 // API wrapper for advanced use cases
 export { PubMedAPIWrapper } from "./pubmed-api.js";
 
 // Advanced exports - for customization and testing
 export { RetryableHttpClient } from "./http-client.js";
 export { PubMedURLBuilder } from "./url-builder.js";
+export { PubMedQuery } from "./query-builder.js";
+export { PubMedFieldTagValidator } from "./field-tag-validator.js";
 export { PubMedParser } from "./pubmed-parser.js";
+export { PubMedEvidenceClassifier } from "./evidence-classifier.js";
+export { PubMedMarkupRenderer } from "./markup-renderer.js";
 
 // Type exports
 export type {
   PubMedAPIWrapperOptions,
   PubMedArticleMetadata,
+  PubMedArticleMetadataBase,
+  PubMedJournalArticleMetadata,
+  PubMedBookArticleMetadata,
+  PubMedNotFoundEntry,
+  PubMedDocSummary,
+  PubMedResultMode,
+  PubMedLoadOptions,
+  PubMedBookCitation,
+  PubMedAbstractSection,
+  PubMedOtherAbstract,
+  PubMedAuthor,
+  PubMedJournalCitation,
+  PubMedELocationId,
+  PubMedMeshHeading,
+  PubMedMeshQualifier,
+  PubMedMeshFilterOptions,
+  PubMedKeyword,
+  PubMedChemical,
+  PubMedSupplementaryConcept,
+  PubMedGrant,
+  PubMedCommentCorrection,
+  PubMedRetractionPolicy,
+  PubMedIterateOptions,
+  PubMedSimilarOptions,
+  PubMedSimilarArticle,
+  PubMedCitationOptions,
+  PubMedCitationDirection,
+  PubMedCrawlOptions,
+  PubMedCitationEdge,
+  PubMedDatabaseInfo,
+  PubMedSearchField,
+  PubMedLinkInfo,
+  PubMedSearchOptions,
+  PubMedSearchUrlOptions,
+  PubMedSortOrder,
+  PubMedQueryField,
+  PubMedDateType,
+  PubMedReference,
+  PubMedPublicationType,
+  PubMedEvidenceLevel,
+  PubMedEvidenceOptions,
+  PubMedRunOptions,
+  PubMedLoadDocsOptions,
+  PubMedArticleIds,
+  PubMedDateSource,
+  PubMedTextFormat,
   PubMedSearchResult,
+  PubMedSummaryResult,
+  PubMedSpellResponse,
+  PubMedLinkResult,
+  PubMedLinkSet,
+  PubMedLinkSetDb,
+  PubMedInfoResult,
+  PubMedDbInfoData,
+  PubMedDocSummaryData,
+  PubMedSearchOutcome,
+  PubMedTranslation,
+  PubMedTranslationStackTerm,
+  PubMedSearchWarningList,
+  PubMedSearchErrorList,
   PubMedArticle,
+  PubMedMedlineCitation,
+  PubMedMeshHeadingData,
+  PubMedKeywordList,
+  PubMedChemicalData,
+  PubMedGrantData,
+  PubMedCommentsCorrectionsData,
+  PubMedReferenceList,
+  PubMedReferenceData,
   PubMedBookArticle,
+  PubMedBookDocument,
+  PubMedBookData,
+  PubMedBookSectionData,
+  PubMedDataSection,
+  PubMedDateData,
   PubMedArticleData,
+  PubMedAuthorList,
+  PubMedAuthorData,
+  PubMedAffiliationInfo,
+  PubMedJournalData,
+  XMLTextNode,
   AbstractText,
+  PubMedAbstractData,
   PubMedXMLResponse,
 } from "./types.js";
 export type { RetryableHttpClientOptions } from "./http-client.js";
+export type { PubMedParserOptions } from "./pubmed-parser.js";
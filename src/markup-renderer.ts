@@ -0,0 +1,87 @@
+import { PubMedTextFormat } from "./types.js";
+
+/**
+ * Markdown delimiters for the inline tags PubMed allows in titles and abstracts.
+ * Superscript and subscript use the Pandoc syntax (`^2+^`, `~2~`).
+ */
+const MARKDOWN_DELIMITERS: Readonly<Record<string, string>> = {
+  i: "*",
+  em: "*",
+  b: "**",
+  strong: "**",
+  sup: "^",
+  sub: "~",
+};
+
+/**
+ * Named XML entities; numeric references are decoded separately.
+ */
+const NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Renderer for mixed-content PubMed text such as `ArticleTitle` and `AbstractText`.
+ *
+ * PubMed marks gene names, species and chemical formulas with inline tags
+ * (`<i>`, `<b>`, `<sup>`, `<sub>`, `<u>`, MathML). The renderer receives the raw
+ * inner markup of an element and rebuilds its text in document order, either as
+ * plain text, as Markdown, or as the original HTML.
+ */
+export class PubMedMarkupRenderer {
+  constructor(private readonly format: PubMedTextFormat = "plain") {}
+
+  /**
+   * Render raw element markup in the configured format.
+   *
+   * @param markup - The raw inner XML of the element
+   * @returns The rendered text
+   */
+  render(markup: string): string {
+    switch (this.format) {
+      case "html":
+        return markup.trim();
+      case "markdown":
+        return this.toText(
+          markup.replace(
+            /<(\/?)([a-z]+)(?:\s[^>]*)?>/gi,
+            (tag, _closing: string, name: string) =>
+              MARKDOWN_DELIMITERS[name.toLowerCase()] ?? tag
+          )
+        );
+      default:
+        return this.toText(markup);
+    }
+  }
+
+  /**
+   * Strip remaining tags, decode entities and collapse whitespace.
+   */
+  private toText(markup: string): string {
+    return this.decodeEntities(markup.replace(/<[^>]*>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Decode named and numeric XML character references.
+   */
+  private decodeEntities(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+      (entity, name: string) => {
+        if (name.startsWith("#x") || name.startsWith("#X")) {
+          return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith("#")) {
+          return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+      }
+    );
+  }
+}
@@ -3,11 +3,86 @@ import { getEnvironmentVariable } from "@langchain/core/utils/env";
 import {
   PubMedAPIWrapperOptions,
   PubMedArticleMetadata,
+  PubMedAuthor,
+  PubMedBookCitation,
+  PubMedCitationDirection,
+  PubMedCitationEdge,
+  PubMedCitationOptions,
+  PubMedCrawlOptions,
+  PubMedDatabaseInfo,
+  PubMedDocSummary,
+  PubMedEvidenceLevel,
+  PubMedEvidenceOptions,
+  PubMedInfoResult,
+  PubMedJournalCitation,
+  PubMedLoadOptions,
+  PubMedLoadDocsOptions,
+  PubMedMeshFilterOptions,
+  PubMedMeshHeading,
+  PubMedNotFoundEntry,
+  PubMedIterateOptions,
+  PubMedRetractionPolicy,
+  PubMedRunOptions,
+  PubMedSearchOptions,
+  PubMedLinkResult,
+  PubMedSearchOutcome,
   PubMedSearchResult,
+  PubMedSimilarArticle,
+  PubMedSimilarOptions,
+  PubMedSummaryResult,
+  PubMedSearchUrlOptions,
 } from "./types.js";
 import { RetryableHttpClient } from "./http-client.js";
 import { PubMedURLBuilder } from "./url-builder.js";
+import { PubMedQuery } from "./query-builder.js";
 import { PubMedParser } from "./pubmed-parser.js";
+import { PubMedEvidenceClassifier } from "./evidence-classifier.js";
+import { PubMedFieldTagValidator } from "./field-tag-validator.js";
+
+/**
+ * ESearch only returns the first 10,000 results of a query; retstart + retmax
+ * may not exceed this number.
+ */
+const MAX_SEARCH_RESULTS = 10000;
+
+/**
+ * Year of the oldest records in PubMed, the lower bound of date-sliced searches.
+ */
+const EARLIEST_PUBLICATION_YEAR = 1781;
+
+/**
+ * Far-future upper bound of date-sliced searches, so that ahead-of-print
+ * records dated after the current year are included.
+ */
+const LATEST_PUBLICATION_YEAR = 3000;
+
+/**
+ * PubMed IDs are positive integers.
+ */
+const PMID_PATTERN = /^\d+$/;
+
+/**
+ * ESearch result of one page of a search.
+ */
+type PubMedSearchPage = PubMedSearchResult["esearchresult"];
+
+/**
+ * Part of a result set that can be paged through with ESearch, i.e. holds at
+ * most {@link MAX_SEARCH_RESULTS} results. The first page is searched when
+ * paging starts unless it is already known.
+ */
+interface PubMedSearchSlice {
+  search: PubMedSearchOptions;
+  firstPage?: PubMedSearchPage;
+}
+
+/**
+ * PubMed ID returned by ELink, with its relevance score for `neighbor_score` requests.
+ */
+interface PubMedLinkedId {
+  id: string;
+  score?: number;
+}
 
 /**
  * Wrapper around PubMed API.
@@ -32,15 +107,47 @@ export class PubMedAPIWrapper {
   private readonly topKResults: number;
   private readonly maxQueryLength: number;
   private readonly docContentCharsMax: number;
+  private readonly sortByEvidence: boolean;
+  private readonly minEvidenceLevel?: PubMedEvidenceLevel;
+  private readonly retractionPolicy: PubMedRetractionPolicy;
+  private readonly fetchBatchSize: number;
+  private readonly searchOptions: PubMedSearchOptions;
+  private readonly showQueryTranslation: boolean;
+  private readonly correctSpelling: boolean;
+  private readonly validateFieldTags: boolean;
 
   private readonly httpClient: RetryableHttpClient;
   private readonly urlBuilder: PubMedURLBuilder;
   private readonly parser: PubMedParser;
+  private readonly evidenceClassifier: PubMedEvidenceClassifier;
+
+  /**
+   * EInfo database descriptions by database name, shared by all calls of
+   * this wrapper because they change only with new database builds.
+   */
+  private readonly databaseInfoCache = new Map<
+    string,
+    Promise<PubMedDatabaseInfo>
+  >();
 
   constructor(options: PubMedAPIWrapperOptions = {}) {
     this.topKResults = options.topKResults ?? 5;
     this.maxQueryLength = options.maxQueryLength ?? 300;
     this.docContentCharsMax = options.docContentCharsMax ?? 10000;
+    this.sortByEvidence = options.sortByEvidence ?? false;
+    this.minEvidenceLevel = options.minEvidenceLevel;
+    this.retractionPolicy = options.retractionPolicy ?? "flag";
+    this.fetchBatchSize = options.fetchBatchSize ?? 200;
+    this.searchOptions = {
+      sort: options.sort,
+      datetype: options.datetype,
+      mindate: options.mindate,
+      maxdate: options.maxdate,
+      reldate: options.reldate,
+    };
+    this.showQueryTranslation = options.showQueryTranslation ?? false;
+    this.correctSpelling = options.correctSpelling ?? false;
+    this.validateFieldTags = options.validateFieldTags ?? false;
 
     const email =
       options.email ??
@@ -55,7 +162,11 @@ export class PubMedAPIWrapper {
     });
 
     this.urlBuilder = new PubMedURLBuilder(email, apiKey);
-    this.parser = new PubMedParser();
+    this.parser = new PubMedParser({
+      textFormat: options.textFormat,
+      preferredLanguages: options.preferredLanguages,
+    });
+    this.evidenceClassifier = new PubMedEvidenceClassifier();
   }
 
   /**
@@ -64,78 +175,568 @@ export class PubMedAPIWrapper {
    * It uses only the most informative fields of article meta information.
    *
    * @param query - The search query to execute
+   * @param options - Per-call search, evidence ranking, filtering and output options
    * @returns A formatted string containing article metadata, or an error message
    */
-  async run(query: string): Promise<string> {
+  async run(query: string, options: PubMedRunOptions = {}): Promise<string> {
     try {
-      const results = await this.load(query.substring(0, this.maxQueryLength));
+      const term = query.substring(0, this.maxQueryLength);
+      const searchOptions = this.resolveSearchOptions(options);
+      let page = await this.esearch(term, this.topKResults, searchOptions);
+
+      let correction = "";
+      if (
+        !page.idlist?.length &&
+        (options.correctSpelling ?? this.correctSpelling)
+      ) {
+        // Spelling correction is a fallback: if ESpell fails, report no results
+        const correctedTerm = await this.suggestSpelling(term).catch(
+          () => undefined
+        );
+        if (correctedTerm) {
+          page = await this.esearch(
+            correctedTerm,
+            this.topKResults,
+            searchOptions
+          );
+          correction = page.idlist?.length
+            ? `No results for "${term}"; showing results for the corrected query "${correctedTerm}".\n\n`
+            : `No results for "${term}"; also no results for the corrected query "${correctedTerm}".\n\n`;
+        }
+      }
+
+      const articles: PubMedArticleMetadata[] = [];
+      for await (const article of this.retrieveSearchResults(page)) {
+        articles.push(article);
+      }
+      const results = this.applyEvidenceOptions(articles, options);
+
+      const translation =
+        (options.showQueryTranslation ?? this.showQueryTranslation)
+          ? this.formatQueryTranslation(this.toSearchOutcome(page)) + "\n\n"
+          : "";
 
       if (results.length === 0) {
-        return "No good PubMed Result was found";
+        return correction + translation + "No good PubMed Result was found";
       }
 
-      const formattedResults = results.map(this.formatArticle);
-      return formattedResults
-        .join("\n\n")
-        .substring(0, this.docContentCharsMax);
+      const formattedResults = results.map((article) =>
+        this.formatArticle(article)
+      );
+      return (
+        correction +
+        translation +
+        formattedResults.join("\n\n")
+      ).substring(0, this.docContentCharsMax);
     } catch (error) {
       return `PubMed exception: ${error}`;
     }
   }
 
+  /**
+   * Format a short line showing how PubMed interpreted the query,
+   * with any errors and warnings of the search.
+   */
+  private formatQueryTranslation(outcome: PubMedSearchOutcome): string {
+    const line = `PubMed interpreted your query as: ${outcome.translation ?? "(no translation)"}`;
+    const diagnostics = [...outcome.errors, ...outcome.warnings];
+    return diagnostics.length > 0
+      ? `${line} (${diagnostics.join("; ")})`
+      : line;
+  }
+
   /**
    * Format a single article metadata into a readable string.
    */
   private formatArticle(article: PubMedArticleMetadata): string {
+    const authors = this.formatAuthors(article.authors);
+    const publicationTypes = article.publicationTypes
+      .map((type) => type.name)
+      .join(", ");
     return (
+      this.formatRetractionWarning(article) +
       `Published: ${article.Published}\n` +
       `Title: ${article.Title}\n` +
+      (authors ? `Authors: ${authors}\n` : "") +
+      this.formatSource(article) +
+      (publicationTypes ? `Publication Types: ${publicationTypes}\n` : "") +
       `Copyright Information: ${article["Copyright Information"]}\n` +
       `Summary:\n${article.Summary}`
     );
   }
 
+  /**
+   * Format the "Journal:" line of a journal article, or the "Book:" and
+   * "Sections:" lines of a book record.
+   */
+  private formatSource(article: PubMedArticleMetadata): string {
+    if (article.kind === "book") {
+      const sections = article.book.sectionTitles.join(", ");
+      return (
+        `Book: ${this.formatBook(article.book)}\n` +
+        (sections ? `Sections: ${sections}\n` : "")
+      );
+    }
+
+    const journal = article.journal ? this.formatJournal(article.journal) : "";
+    return journal ? `Journal: ${journal}\n` : "";
+  }
+
+  /**
+   * Format a warning line for retracted articles when the retraction policy is "flag".
+   */
+  private formatRetractionWarning(article: PubMedArticleMetadata): string {
+    if (!article.retracted || this.retractionPolicy !== "flag") {
+      return "";
+    }
+
+    const notices = article.commentsCorrections
+      .filter((link) => link.refType === "RetractionIn")
+      .map((link) => (link.pmid ? `PMID ${link.pmid}` : link.refSource))
+      .filter(Boolean);
+    const details = notices.length > 0 ? ` (see ${notices.join(", ")})` : "";
+    return `WARNING: This article has been retracted${details}. Do not cite it as evidence.\n`;
+  }
+
+  /**
+   * Format an author list in citation style ("Smith J, Doe A").
+   * Long lists are cut after the first six names, as in Vancouver references.
+   */
+  private formatAuthors(authors: PubMedAuthor[]): string {
+    const maxAuthors = 6;
+    const names = authors.map(
+      (author) =>
+        author.collectiveName ??
+        [author.lastName, author.initials].filter(Boolean).join(" ")
+    );
+
+    if (names.length > maxAuthors) {
+      return `${names.slice(0, maxAuthors).join(", ")}, et al.`;
+    }
+    return names.join(", ");
+  }
+
+  /**
+   * Format journal citation details as "N Engl J Med 383(27):2603-2615".
+   * Online-only articles without pages fall back to their electronic location.
+   */
+  private formatJournal(journal: PubMedJournalCitation): string {
+    const name = journal.isoAbbreviation ?? journal.title ?? "";
+    const issue = journal.issue ? `(${journal.issue})` : "";
+    const location = journal.pages ?? journal.eLocationIds[0]?.value;
+
+    const citation = journal.volume
+      ? `${name} ${journal.volume}${issue}`.trim()
+      : name;
+    if (!location) {
+      return citation;
+    }
+    return citation ? `${citation}:${location}` : location;
+  }
+
+  /**
+   * Format book citation details in NLM style, e.g.
+   * "Adam MP, Feldman J, editors. GeneReviews. 2nd ed. Seattle (WA): University of Washington; Chapter 3".
+   */
+  private formatBook(book: PubMedBookCitation): string {
+    const editors = this.formatAuthors(book.editors);
+    const imprint = [book.publisherLocation, book.publisher]
+      .filter(Boolean)
+      .join(": ");
+
+    const citation = [
+      editors && `${editors}, editors.`,
+      book.title && `${book.title}.`,
+      book.edition && `${book.edition} ed.`,
+      imprint,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return book.locationLabel ? `${citation}; ${book.locationLabel}` : citation;
+  }
+
   /**
    * Search PubMed for documents matching the query.
    * Return an async iterator of dictionaries containing the document metadata.
+   * Articles are retrieved from the History server in batches of `fetchBatchSize`
+   * and yielded in search order as each batch arrives. With `mode: "summary"`,
+   * lighter document summaries are retrieved with ESummary instead of full
+   * records with EFetch.
    *
-   * @param query - The search query
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Per-call result mode, sort order and date filters
    */
+  lazyLoad(
+    query: string | PubMedQuery,
+    options: PubMedLoadOptions & { mode: "summary" }
+  ): AsyncGenerator<PubMedDocSummary, void, unknown>;
+  lazyLoad(
+    query: string | PubMedQuery,
+    options?: PubMedLoadOptions & { mode?: "full" }
+  ): AsyncGenerator<PubMedArticleMetadata, void, unknown>;
+  lazyLoad(
+    query: string | PubMedQuery,
+    options?: PubMedLoadOptions
+  ): AsyncGenerator<PubMedArticleMetadata | PubMedDocSummary, void, unknown>;
   async *lazyLoad(
-    query: string
-  ): AsyncGenerator<PubMedArticleMetadata, void, unknown> {
-    const searchUrl = this.urlBuilder.buildSearchUrl(query, this.topKResults);
-    const response = await this.httpClient.fetch(searchUrl, "search request");
+    query: string | PubMedQuery,
+    options: PubMedLoadOptions = {}
+  ): AsyncGenerator<PubMedArticleMetadata | PubMedDocSummary, void, unknown> {
+    const page = await this.esearch(
+      query.toString(),
+      this.topKResults,
+      this.resolveSearchOptions(options)
+    );
+    if (options.mode === "summary") {
+      yield* this.retrieveSearchSummaries(page);
+    } else {
+      yield* this.retrieveSearchResults(page);
+    }
+  }
 
-    const data = (await response.json()) as PubMedSearchResult;
+  /**
+   * Search PubMed without retrieving the articles.
+   * Returns the matching IDs together with PubMed's interpretation of the
+   * query and the warnings and errors of the search, e.g. phrases that were
+   * not found, so that a bad query can be corrected.
+   *
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Per-call sort order and date filters
+   * @returns A promise that resolves to the search outcome
+   */
+  async search(
+    query: string | PubMedQuery,
+    options: PubMedSearchOptions = {}
+  ): Promise<PubMedSearchOutcome> {
+    return this.toSearchOutcome(
+      await this.esearch(
+        query.toString(),
+        this.topKResults,
+        this.resolveSearchOptions(options)
+      )
+    );
+  }
 
-    if (!data.esearchresult || !data.esearchresult.webenv) {
-      throw new Error("Invalid response from PubMed API");
+  /**
+   * Ask PubMed for a spelling correction of a query, e.g. "asthma" for "asthmaa".
+   *
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @returns The corrected query, or undefined when PubMed suggests no change
+   */
+  async suggestSpelling(
+    query: string | PubMedQuery
+  ): Promise<string | undefined> {
+    const term = query.toString();
+    const response = await this.httpClient.fetch(
+      this.urlBuilder.buildSpellUrl(term),
+      "spelling request"
+    );
+    const correctedTerm = this.parser.extractCorrectedQuery(
+      await response.text()
+    );
+
+    // ESpell echoes the query, often lowercased, when it has nothing to correct
+    const normalize = (text: string) =>
+      text.toLowerCase().replace(/\s+/g, " ").trim();
+    return correctedTerm && normalize(correctedTerm) !== normalize(term)
+      ? correctedTerm
+      : undefined;
+  }
+
+  /**
+   * Retrieve the document summaries of a search page in batches of
+   * `fetchBatchSize`, from the History server when the page has a query key.
+   */
+  private async *retrieveSearchSummaries(
+    page: PubMedSearchPage
+  ): AsyncGenerator<PubMedDocSummary, void, unknown> {
+    const { webenv, querykey, idlist } = page;
+    const idList = idlist || [];
+
+    for (let start = 0; start < idList.length; start += this.fetchBatchSize) {
+      const batch = idList.slice(start, start + this.fetchBatchSize);
+      const summaryUrl = querykey
+        ? this.urlBuilder.buildHistorySummaryUrl(
+            webenv,
+            querykey,
+            start,
+            batch.length
+          )
+        : this.urlBuilder.buildSummaryByIdsUrl(batch);
+      const response = await this.httpClient.fetch(
+        summaryUrl,
+        `${batch.length} summaries`
+      );
+      const data = (await response.json()) as PubMedSummaryResult;
+      if (data.error) {
+        throw new Error(`PubMed summary error: ${data.error}`);
+      }
+
+      for (const summary of this.parser.extractDocSummaries(data, batch)) {
+        if (this.retractionPolicy === "exclude" && summary.retracted) {
+          continue;
+        }
+        yield summary;
+      }
     }
+  }
+
+  /**
+   * Retrieve the articles of a search page in batches of `fetchBatchSize`,
+   * from the History server when the page has a query key.
+   */
+  private async *retrieveSearchResults(
+    page: PubMedSearchPage
+  ): AsyncGenerator<PubMedArticleMetadata, void, unknown> {
+    const { webenv, querykey, idlist } = page;
+    const idList = idlist || [];
 
-    const webenv = data.esearchresult.webenv;
-    const idList = data.esearchresult.idlist || [];
+    for (let start = 0; start < idList.length; start += this.fetchBatchSize) {
+      const batch = idList.slice(start, start + this.fetchBatchSize);
+      const fetchUrl = querykey
+        ? this.urlBuilder.buildHistoryFetchUrl(
+            webenv,
+            querykey,
+            start,
+            batch.length
+          )
+        : this.urlBuilder.buildFetchByIdsUrl(batch);
 
-    for (const uid of idList) {
-      yield await this.retrieveArticle(uid, webenv);
+      for (const article of await this.retrieveBatch(fetchUrl, batch)) {
+        if (this.retractionPolicy === "exclude" && article.retracted) {
+          continue;
+        }
+        yield article;
+      }
     }
   }
 
   /**
    * Search PubMed for documents matching the query.
-   * Return a list of dictionaries containing the document metadata.
+   * Return a list of dictionaries containing the document metadata, or
+   * document summaries with `mode: "summary"`.
    *
-   * @param query - The search query
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Per-call result mode, sort order and date filters
    * @returns A promise that resolves to an array of article metadata
    */
-  async load(query: string): Promise<PubMedArticleMetadata[]> {
-    const results: PubMedArticleMetadata[] = [];
-    for await (const result of this.lazyLoad(query)) {
+  load(
+    query: string | PubMedQuery,
+    options: PubMedLoadOptions & { mode: "summary" }
+  ): Promise<PubMedDocSummary[]>;
+  load(
+    query: string | PubMedQuery,
+    options?: PubMedLoadOptions & { mode?: "full" }
+  ): Promise<PubMedArticleMetadata[]>;
+  load(
+    query: string | PubMedQuery,
+    options?: PubMedLoadOptions
+  ): Promise<(PubMedArticleMetadata | PubMedDocSummary)[]>;
+  async load(
+    query: string | PubMedQuery,
+    options: PubMedLoadOptions = {}
+  ): Promise<(PubMedArticleMetadata | PubMedDocSummary)[]> {
+    const results: (PubMedArticleMetadata | PubMedDocSummary)[] = [];
+    for await (const result of this.lazyLoad(query, options)) {
       results.push(result);
     }
     return results;
   }
 
+  /**
+   * Iterate over the whole result set of a query, beyond `topKResults`.
+   *
+   * Results are paged through with ESearch, reusing the WebEnv and query_key of
+   * the first page, and retrieved with one EFetch request per page. As ESearch
+   * cannot page past the first 10,000 results, larger result sets are split
+   * into publication date ranges of at most 10,000 results each, newest first;
+   * the order then follows the date ranges rather than relevance. Splitting is
+   * skipped when a date filter is set, so only the first 10,000 results of the
+   * filtered search are reachable.
+   *
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Page size, result limit, search filters and a callback receiving the total count
+   */
+  async *iterateAll(
+    query: string | PubMedQuery,
+    options: PubMedIterateOptions = {}
+  ): AsyncGenerator<PubMedArticleMetadata, void, unknown> {
+    const limit = options.limit ?? Infinity;
+    const pageSize = Math.min(
+      options.pageSize ?? this.fetchBatchSize,
+      limit,
+      MAX_SEARCH_RESULTS
+    );
+    const search = this.resolveSearchOptions(options);
+    const term = query.toString();
+
+    const firstPage = await this.esearch(term, pageSize, search);
+    const count = Number(firstPage.count ?? firstPage.idlist?.length ?? 0);
+    options.onCount?.(count);
+
+    const hasDateFilter =
+      Boolean(search.mindate) || search.reldate !== undefined;
+    const slices =
+      Math.min(count, limit) > MAX_SEARCH_RESULTS && !hasDateFilter
+        ? this.sliceByDate(
+            term,
+            search,
+            EARLIEST_PUBLICATION_YEAR * 12,
+            LATEST_PUBLICATION_YEAR * 12 + 11,
+            count
+          )
+        : [{ search, firstPage }];
+
+    let remaining = limit;
+    for await (const slice of slices) {
+      for await (const article of this.pageThrough(
+        term,
+        pageSize,
+        slice,
+        remaining
+      )) {
+        remaining--;
+        yield article;
+      }
+      if (remaining <= 0) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Page through a search slice, retrieving each page with one EFetch request.
+   * Pages are sized to the remaining limit, and no further page is requested
+   * once the limit is reached.
+   */
+  private async *pageThrough(
+    query: string,
+    pageSize: number,
+    slice: PubMedSearchSlice,
+    limit: number
+  ): AsyncGenerator<PubMedArticleMetadata, void, unknown> {
+    let page =
+      slice.firstPage ??
+      (await this.esearch(query, Math.min(pageSize, limit), slice.search));
+    const count = Math.min(
+      Number(page.count ?? page.idlist?.length ?? 0),
+      MAX_SEARCH_RESULTS
+    );
+    let retstart = 0;
+    let remaining = limit;
+
+    while (page.idlist?.length && remaining > 0) {
+      const uids = page.idlist.slice(0, remaining);
+      const fetchUrl = page.querykey
+        ? this.urlBuilder.buildHistoryFetchUrl(
+            page.webenv,
+            page.querykey,
+            retstart,
+            uids.length
+          )
+        : this.urlBuilder.buildFetchByIdsUrl(uids);
+
+      for (const article of await this.retrieveBatch(fetchUrl, uids)) {
+        if (this.retractionPolicy === "exclude" && article.retracted) {
+          continue;
+        }
+        remaining--;
+        yield article;
+      }
+
+      retstart += uids.length;
+      if (retstart >= count || remaining <= 0) {
+        return;
+      }
+      const retmax = Math.min(pageSize, remaining, count - retstart);
+      page = await this.esearch(query, retmax, {
+        ...slice.search,
+        retstart,
+        webenv: page.webenv,
+        queryKey: page.querykey,
+      });
+    }
+  }
+
+  /**
+   * Split a search into publication date ranges of at most
+   * {@link MAX_SEARCH_RESULTS} results, newest first, by halving the range
+   * until it fits. Months are counted from year 0 (`year * 12 + month - 1`).
+   * A single month that still exceeds the cap is returned as is, so only its
+   * first 10,000 results are reachable.
+   *
+   * Halves are probed for their count only (retmax=0); IDs are searched when
+   * a slice is paged through.
+   *
+   * @param count - The number of results in the range
+   */
+  private async *sliceByDate(
+    query: string,
+    baseSearch: PubMedSearchOptions,
+    fromMonth: number,
+    toMonth: number,
+    count: number
+  ): AsyncGenerator<PubMedSearchSlice, void, unknown> {
+    if (count === 0) {
+      return;
+    }
+    if (count <= MAX_SEARCH_RESULTS || fromMonth === toMonth) {
+      yield { search: this.toSliceSearch(baseSearch, fromMonth, toMonth) };
+      return;
+    }
+
+    const middle = Math.floor((fromMonth + toMonth) / 2);
+    for (const [from, to] of [
+      [middle + 1, toMonth],
+      [fromMonth, middle],
+    ]) {
+      const probe = await this.esearch(
+        query,
+        0,
+        this.toSliceSearch(baseSearch, from, to)
+      );
+      yield* this.sliceByDate(
+        query,
+        baseSearch,
+        from,
+        to,
+        Number(probe.count ?? 0)
+      );
+    }
+  }
+
+  /**
+   * Restrict a search to the publication dates of a range of months.
+   */
+  private toSliceSearch(
+    baseSearch: PubMedSearchOptions,
+    fromMonth: number,
+    toMonth: number
+  ): PubMedSearchOptions {
+    return {
+      ...baseSearch,
+      datetype: "pdat",
+      mindate: this.formatSliceDate(fromMonth, false),
+      maxdate: this.formatSliceDate(toMonth, true),
+    };
+  }
+
+  /**
+   * Format a month counted from year 0 as the first or last day of that month (YYYY/MM/DD).
+   */
+  private formatSliceDate(month: number, endOfMonth: boolean): string {
+    const year = Math.floor(month / 12);
+    const monthOfYear = (month % 12) + 1;
+    const day = endOfMonth
+      ? new Date(Date.UTC(year, monthOfYear, 0)).getUTCDate()
+      : 1;
+    return [
+      String(year),
+      String(monthOfYear).padStart(2, "0"),
+      String(day).padStart(2, "0"),
+    ].join("/");
+  }
+
   /**
    * Convert a metadata dictionary to a LangChain Document.
    *
@@ -149,10 +750,14 @@ export class PubMedAPIWrapper {
   /**
    * Search PubMed and return an async iterator of Document instances.
    *
-   * @param query - The search query
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Per-call sort order and date filters
    */
-  async *lazyLoadDocs(query: string): AsyncGenerator<Document, void, unknown> {
-    for await (const doc of this.lazyLoad(query)) {
+  async *lazyLoadDocs(
+    query: string | PubMedQuery,
+    options: PubMedSearchOptions = {}
+  ): AsyncGenerator<Document, void, unknown> {
+    for await (const doc of this.lazyLoad(query, options)) {
       yield this.dictToDocument(doc);
     }
   }
@@ -160,34 +765,665 @@ export class PubMedAPIWrapper {
   /**
    * Search PubMed and return a list of Document instances.
    *
-   * @param query - The search query
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @param options - Per-call search, evidence ranking, filtering and section splitting options
    * @returns A promise that resolves to an array of Documents
    */
-  async loadDocs(query: string): Promise<Document[]> {
-    const docs: Document[] = [];
-    for await (const doc of this.lazyLoadDocs(query)) {
-      docs.push(doc);
+  async loadDocs(
+    query: string | PubMedQuery,
+    options: PubMedLoadDocsOptions = {}
+  ): Promise<Document[]> {
+    const results = this.applyEvidenceOptions(
+      await this.load(query, options),
+      options
+    );
+    if (options.splitSections) {
+      return results.flatMap((doc) => this.parser.toSectionDocuments(doc));
+    }
+    return results.map((doc) => this.dictToDocument(doc));
+  }
+
+  /**
+   * Merge per-call sort order and date filters with the wrapper defaults.
+   * Per-call options take precedence over the wrapper defaults.
+   */
+  private resolveSearchOptions(
+    options: PubMedSearchOptions
+  ): PubMedSearchOptions {
+    return {
+      sort: options.sort ?? this.searchOptions.sort,
+      datetype: options.datetype ?? this.searchOptions.datetype,
+      mindate: options.mindate ?? this.searchOptions.mindate,
+      maxdate: options.maxdate ?? this.searchOptions.maxdate,
+      reldate: options.reldate ?? this.searchOptions.reldate,
+    };
+  }
+
+  /**
+   * Filter and sort articles by evidence level.
+   * Per-call options take precedence over the wrapper defaults.
+   */
+  private applyEvidenceOptions(
+    articles: PubMedArticleMetadata[],
+    options: PubMedEvidenceOptions
+  ): PubMedArticleMetadata[] {
+    const sortByEvidence = options.sortByEvidence ?? this.sortByEvidence;
+    const minEvidenceLevel = options.minEvidenceLevel ?? this.minEvidenceLevel;
+
+    const results = minEvidenceLevel
+      ? articles.filter((article) =>
+          this.evidenceClassifier.meets(article.evidenceLevel, minEvidenceLevel)
+        )
+      : [...articles];
+
+    if (sortByEvidence) {
+      // Array.prototype.sort is stable, so equal levels keep relevance order
+      results.sort(
+        (a, b) =>
+          this.evidenceClassifier.rank(a.evidenceLevel) -
+          this.evidenceClassifier.rank(b.evidenceLevel)
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Filter articles to those indexed with a MeSH descriptor.
+   *
+   * @param articles - Articles returned by {@link load} or {@link lazyLoad}
+   * @param descriptor - Descriptor name (case-insensitive) or descriptor UI, e.g. "Humans" or "D006801"
+   * @param options - Filter options
+   * @returns The articles indexed with the descriptor, in their original order
+   */
+  filterByMeshHeading(
+    articles: PubMedArticleMetadata[],
+    descriptor: string,
+    options: PubMedMeshFilterOptions = {}
+  ): PubMedArticleMetadata[] {
+    const wanted = descriptor.trim().toLowerCase();
+    return articles.filter((article) =>
+      this.selectMeshHeadings(article, options).some(
+        (heading) =>
+          heading.descriptor.toLowerCase() === wanted ||
+          heading.descriptorUi?.toLowerCase() === wanted
+      )
+    );
+  }
+
+  /**
+   * Group articles by MeSH descriptor.
+   * An article appears in every group of a descriptor it is indexed with.
+   *
+   * @param articles - Articles returned by {@link load} or {@link lazyLoad}
+   * @param options - Filter options
+   * @returns Articles keyed by descriptor name
+   */
+  groupByMeshHeading(
+    articles: PubMedArticleMetadata[],
+    options: PubMedMeshFilterOptions = {}
+  ): Record<string, PubMedArticleMetadata[]> {
+    const groups: Record<string, PubMedArticleMetadata[]> = {};
+    for (const article of articles) {
+      for (const heading of this.selectMeshHeadings(article, options)) {
+        (groups[heading.descriptor] ??= []).push(article);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Count articles per funding agency.
+   * An article is counted once per agency even if it lists several grants from it.
+   *
+   * @param articles - Articles returned by {@link load} or {@link lazyLoad}
+   * @returns Article counts keyed by agency name, most frequent agency first
+   */
+  countByFundingAgency(
+    articles: PubMedArticleMetadata[]
+  ): Record<string, number> {
+    const counts = new Map<string, number>();
+    for (const article of articles) {
+      const agencies = new Set(
+        article.grants
+          .map((grant) => grant.agency)
+          .filter((agency): agency is string => Boolean(agency))
+      );
+      for (const agency of agencies) {
+        counts.set(agency, (counts.get(agency) ?? 0) + 1);
+      }
+    }
+
+    return Object.fromEntries(
+      [...counts.entries()].sort(([, a], [, b]) => b - a)
+    );
+  }
+
+  /**
+   * Retrieve articles by PubMed ID, without a prior search.
+   * IDs are fetched in batches of `fetchBatchSize`. Results keep the order of
+   * the input, including duplicates; IDs without a record, or that are not
+   * valid PMIDs, get a "not-found" entry. Retracted articles are returned
+   * regardless of the retraction policy, so every ID has an entry.
+   *
+   * @param pmids - The PubMed IDs
+   * @returns The article metadata or a "not-found" entry for each ID
+   */
+  async getByIds(
+    pmids: string[]
+  ): Promise<(PubMedArticleMetadata | PubMedNotFoundEntry)[]> {
+    const uids = [
+      ...new Set(
+        pmids
+          .map((pmid) => pmid.trim())
+          .filter((pmid) => PMID_PATTERN.test(pmid))
+      ),
+    ];
+    const articles = new Map(
+      (await this.retrieveArticles(uids)).map((article) => [
+        article.uid,
+        article,
+      ])
+    );
+
+    return pmids.map(
+      (pmid) => articles.get(pmid.trim()) ?? { kind: "not-found", uid: pmid }
+    );
+  }
+
+  /**
+   * Retrieve articles by PubMed ID as LangChain Documents.
+   * See {@link getByIds} for batching, ordering and "not-found" entries.
+   *
+   * @param pmids - The PubMed IDs
+   * @returns A Document or a "not-found" entry for each ID
+   */
+  async getDocsByIds(
+    pmids: string[]
+  ): Promise<(Document | PubMedNotFoundEntry)[]> {
+    return (await this.getByIds(pmids)).map((result) =>
+      result.kind === "not-found" ? result : this.dictToDocument(result)
+    );
+  }
+
+  /**
+   * Find articles similar to an article, as listed under "Similar articles"
+   * on PubMed. Similar articles are computed by PubMed from shared words and
+   * MeSH terms and come with a relevance score; the article itself is left out.
+   * Retracted articles are dropped when the retraction policy is "exclude".
+   *
+   * @param pmid - The PubMed ID of the article
+   * @param options - Maximum number of articles and minimum relevance score
+   * @returns The similar articles with their scores, most similar first
+   */
+  async findSimilar(
+    pmid: string,
+    options: PubMedSimilarOptions = {}
+  ): Promise<PubMedSimilarArticle[]> {
+    const uid = this.validatePmid(pmid);
+    const minScore = options.minScore ?? 0;
+    const links = (
+      (await this.elink([uid], "pubmed_pubmed", "neighbor_score")).get(uid) ??
+      []
+    )
+      .filter((link) => link.id !== uid && (link.score ?? 0) >= minScore)
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      .slice(0, options.limit ?? this.topKResults);
+
+    const articles = new Map(
+      (await this.retrieveArticles(links.map((link) => link.id))).map(
+        (article) => [article.uid, article]
+      )
+    );
+    return links.flatMap((link) => {
+      const article = articles.get(link.id);
+      if (
+        !article ||
+        (this.retractionPolicy === "exclude" && article.retracted)
+      ) {
+        return [];
+      }
+      return [{ score: link.score ?? 0, article }];
+    });
+  }
+
+  /**
+   * Find articles similar to an article and format them like {@link run},
+   * each preceded by its similarity score.
+   *
+   * @param pmid - The PubMed ID of the article
+   * @param options - Maximum number of articles and minimum relevance score
+   * @returns A formatted string containing article metadata, or an error message
+   */
+  async runSimilar(
+    pmid: string,
+    options: PubMedSimilarOptions = {}
+  ): Promise<string> {
+    try {
+      const results = await this.findSimilar(pmid, options);
+
+      if (results.length === 0) {
+        return "No similar PubMed articles were found";
+      }
+
+      return results
+        .map(
+          ({ score, article }) =>
+            `Similarity Score: ${score}\n${this.formatArticle(article)}`
+        )
+        .join("\n\n")
+        .substring(0, this.docContentCharsMax);
+    } catch (error) {
+      return `PubMed exception: ${error}`;
+    }
+  }
+
+  /**
+   * Retrieve the articles citing an article, newest first, as linked by
+   * PubMed ("Cited by"). Citations are only known for articles in PubMed
+   * Central or with reference lists deposited with PubMed.
+   * Retracted articles are dropped when the retraction policy is "exclude".
+   *
+   * @param pmid - The PubMed ID of the cited article
+   * @param options - Maximum number of articles to return
+   * @returns The citing articles
+   */
+  async getCitedBy(
+    pmid: string,
+    options: PubMedCitationOptions = {}
+  ): Promise<PubMedArticleMetadata[]> {
+    return this.retrieveLinkedArticles(pmid, "pubmed_pubmed_citedin", options);
+  }
+
+  /**
+   * Retrieve the articles cited by an article, as linked by PubMed
+   * ("References"). Unlike {@link getReferences}, which reads the reference
+   * list of the article record, this uses the links computed by PubMed.
+   * Retracted articles are dropped when the retraction policy is "exclude".
+   *
+   * @param pmid - The PubMed ID of the citing article
+   * @param options - Maximum number of articles to return
+   * @returns The cited articles
+   */
+  async getCitedReferences(
+    pmid: string,
+    options: PubMedCitationOptions = {}
+  ): Promise<PubMedArticleMetadata[]> {
+    return this.retrieveLinkedArticles(pmid, "pubmed_pubmed_refs", options);
+  }
+
+  /**
+   * Crawl the citation graph breadth-first from seed articles, following
+   * "Cited by" and/or "References" links, and yield each citation once.
+   * Every article is expanded at most once, so the graph can be exported
+   * from the yielded edges; article metadata can be retrieved afterwards
+   * with {@link getByIds}.
+   *
+   * @param seeds - The PubMed IDs to start from
+   * @param options - Number of hops, maximum number of articles and link direction
+   */
+  async *crawlCitations(
+    seeds: string[],
+    options: PubMedCrawlOptions = {}
+  ): AsyncGenerator<PubMedCitationEdge, void, unknown> {
+    const depth = options.depth ?? 1;
+    const maxNodes = options.maxNodes ?? 100;
+    const direction = options.direction ?? "both";
+
+    const nodes = new Set<string>();
+    for (const seed of seeds) {
+      const uid = this.validatePmid(seed);
+      if (nodes.size < maxNodes) {
+        nodes.add(uid);
+      }
+    }
+
+    const edges = new Set<string>();
+    let frontier = [...nodes];
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      const citations = await this.linkCitations(frontier, direction);
+      for (const uid of frontier) {
+        for (const edge of citations.get(uid) ?? []) {
+          const neighbor = edge.citing === uid ? edge.cited : edge.citing;
+          if (!nodes.has(neighbor)) {
+            if (nodes.size >= maxNodes) {
+              continue;
+            }
+            nodes.add(neighbor);
+            next.push(neighbor);
+          }
+
+          const key = `${edge.citing}>${edge.cited}`;
+          if (!edges.has(key)) {
+            edges.add(key);
+            yield { ...edge, depth: hop };
+          }
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  /**
+   * Retrieve the articles cited by an article.
+   * References are resolved through their PMIDs and fetched in batches;
+   * references without a PMID, or whose record cannot be fetched, are skipped.
+   * Retracted references are dropped when the retraction policy is "exclude".
+   *
+   * @param pmid - The PubMed ID of the citing article
+   * @returns The referenced articles in the order of the reference list
+   */
+  async getReferences(pmid: string): Promise<PubMedArticleMetadata[]> {
+    const uid = this.validatePmid(pmid);
+    const [article] = await this.retrieveArticles([uid]);
+    if (!article) {
+      throw new Error(`Article ${uid} not found in PubMed`);
+    }
+
+    const referencePmids = [
+      ...new Set(
+        article.references
+          .map((reference) => reference.pmid)
+          .filter((id): id is string => Boolean(id))
+      ),
+    ];
+    const references = await this.retrieveArticles(referencePmids);
+    return this.retractionPolicy === "exclude"
+      ? references.filter((reference) => !reference.retracted)
+      : references;
+  }
+
+  /**
+   * Describe an Entrez database with EInfo: its record count, last update,
+   * search fields and links to other databases.
+   * See https://www.ncbi.nlm.nih.gov/books/NBK25499/#chapter4.EInfo
+   *
+   * Descriptions are cached in memory per database, so repeated calls and
+   * field tag validation request EInfo only once.
+   *
+   * @param database - The Entrez database
+   * @returns A promise that resolves to the database description
+   */
+  async getDatabaseInfo(database = "pubmed"): Promise<PubMedDatabaseInfo> {
+    let info = this.databaseInfoCache.get(database);
+    if (!info) {
+      info = this.einfo(database);
+      this.databaseInfoCache.set(database, info);
+      // Do not cache failures, so that a later call can retry
+      info.catch(() => this.databaseInfoCache.delete(database));
+    }
+    return info;
+  }
+
+  /**
+   * Find the field tags of a query that PubMed does not know, e.g. "tiabs"
+   * in "asthma[tiabs]". PubMed ignores unknown tags and searches the tagged
+   * text in all fields instead, so such queries silently return wrong results.
+   *
+   * @param query - The search query, as a term string or a {@link PubMedQuery}
+   * @returns The unknown tags in order of appearance, without brackets
+   */
+  async findUnknownFieldTags(query: string | PubMedQuery): Promise<string[]> {
+    const validator = new PubMedFieldTagValidator(await this.getDatabaseInfo());
+    return validator.findUnknownTags(query.toString());
+  }
+
+  /**
+   * Return the MeSH headings of an article that match the filter options.
+   */
+  private selectMeshHeadings(
+    article: PubMedArticleMetadata,
+    options: PubMedMeshFilterOptions
+  ): PubMedMeshHeading[] {
+    return options.majorTopicOnly
+      ? article.meshHeadings.filter((heading) => heading.majorTopic)
+      : article.meshHeadings;
+  }
+
+  /**
+   * Run an ESearch request and validate its response. With `validateFieldTags`,
+   * queries with unknown field tags are rejected before the request is sent.
+   *
+   * @param query - The search term
+   * @param maxResults - Maximum number of IDs to return
+   * @param options - Optional paging, History server and date range parameters
+   * @returns The search result, including the WebEnv of the History server
+   */
+  private async esearch(
+    query: string,
+    maxResults: number,
+    options: PubMedSearchUrlOptions = {}
+  ): Promise<PubMedSearchPage> {
+    if (this.validateFieldTags) {
+      new PubMedFieldTagValidator(await this.getDatabaseInfo()).validate(query);
+    }
+
+    const searchUrl = this.urlBuilder.buildSearchUrl(
+      query,
+      maxResults,
+      options
+    );
+    const response = await this.httpClient.fetch(searchUrl, "search request");
+
+    const data = (await response.json()) as PubMedSearchResult;
+
+    if (data.esearchresult?.ERROR) {
+      throw new Error(`PubMed search error: ${data.esearchresult.ERROR}`);
+    }
+    if (!data.esearchresult || !data.esearchresult.webenv) {
+      throw new Error("Invalid response from PubMed API");
+    }
+    return data.esearchresult;
+  }
+
+  /**
+   * Request the description of a database from EInfo.
+   *
+   * @param database - The Entrez database
+   * @returns The database description
+   */
+  private async einfo(database: string): Promise<PubMedDatabaseInfo> {
+    const response = await this.httpClient.fetch(
+      this.urlBuilder.buildInfoUrl(database),
+      "database info request"
+    );
+    const data = (await response.json()) as PubMedInfoResult;
+
+    const error = data.einforesult?.ERROR ?? data.error;
+    if (error) {
+      throw new Error(`PubMed info error: ${error}`);
+    }
+    return this.parser.extractDatabaseInfo(data);
+  }
+
+  /**
+   * Trim a PubMed ID and check that it is a valid PMID.
+   *
+   * @throws Error if the ID is not a positive integer
+   */
+  private validatePmid(pmid: string): string {
+    const uid = pmid.trim();
+    if (!PMID_PATTERN.test(uid)) {
+      throw new Error(`Invalid PubMed ID "${pmid}"`);
+    }
+    return uid;
+  }
+
+  /**
+   * Retrieve the articles linked to an article through an ELink link name,
+   * in link order.
+   */
+  private async retrieveLinkedArticles(
+    pmid: string,
+    linkName: string,
+    options: PubMedCitationOptions
+  ): Promise<PubMedArticleMetadata[]> {
+    const uid = this.validatePmid(pmid);
+    const links =
+      (await this.elink([uid], linkName, "neighbor")).get(uid) ?? [];
+    const articles = await this.retrieveArticles(
+      links.slice(0, options.limit ?? links.length).map((link) => link.id)
+    );
+    return this.retractionPolicy === "exclude"
+      ? articles.filter((article) => !article.retracted)
+      : articles;
+  }
+
+  /**
+   * List the citations of articles in the given direction, with one ELink
+   * request per link name for each batch of `fetchBatchSize` articles.
+   *
+   * @returns The citations of each article, keyed by its UID
+   */
+  private async linkCitations(
+    uids: string[],
+    direction: PubMedCitationDirection
+  ): Promise<Map<string, Omit<PubMedCitationEdge, "depth">[]>> {
+    const citations = new Map<string, Omit<PubMedCitationEdge, "depth">[]>();
+    for (let start = 0; start < uids.length; start += this.fetchBatchSize) {
+      const batch = uids.slice(start, start + this.fetchBatchSize);
+      const references =
+        direction !== "citedBy"
+          ? await this.elink(batch, "pubmed_pubmed_refs", "neighbor")
+          : new Map<string, PubMedLinkedId[]>();
+      const citedBy =
+        direction !== "references"
+          ? await this.elink(batch, "pubmed_pubmed_citedin", "neighbor")
+          : new Map<string, PubMedLinkedId[]>();
+
+      for (const uid of batch) {
+        citations.set(uid, [
+          ...(references.get(uid) ?? []).map((link) => ({
+            citing: uid,
+            cited: link.id,
+          })),
+          ...(citedBy.get(uid) ?? []).map((link) => ({
+            citing: link.id,
+            cited: uid,
+          })),
+        ]);
+      }
+    }
+    return citations;
+  }
+
+  /**
+   * Run an ELink request for articles and return the linked PubMed IDs of
+   * each. ELink answers with one link set per requested ID.
+   *
+   * @param uids - The article UIDs
+   * @param linkName - The link name, e.g. "pubmed_pubmed"
+   * @param command - The ELink command, e.g. "neighbor_score"
+   * @returns The linked IDs of each article, keyed by its UID, with scores
+   *   for "neighbor_score" requests
+   */
+  private async elink(
+    uids: string[],
+    linkName: string,
+    command: string
+  ): Promise<Map<string, PubMedLinkedId[]>> {
+    const linkUrl = this.urlBuilder.buildLinkUrl(uids, linkName, command);
+    const response = await this.httpClient.fetch(
+      linkUrl,
+      uids.length === 1
+        ? `links of article ${uids[0]}`
+        : `links of ${uids.length} articles`
+    );
+
+    const data = (await response.json()) as PubMedLinkResult;
+    const error =
+      data.ERROR ?? data.linksets?.find((linkSet) => linkSet.ERROR)?.ERROR;
+    if (error) {
+      throw new Error(`PubMed link error: ${error}`);
+    }
+
+    const links = new Map<string, PubMedLinkedId[]>();
+    for (const linkSet of data.linksets ?? []) {
+      const linkSetDb = linkSet.linksetdbs?.find(
+        (db) => db.linkname === linkName
+      );
+      links.set(
+        String(linkSet.ids?.[0]),
+        (linkSetDb?.links ?? []).map((link) =>
+          typeof link === "string"
+            ? { id: link }
+            : {
+                id: String(link.id),
+                ...(link.score !== undefined && { score: Number(link.score) }),
+              }
+        )
+      );
+    }
+    return links;
+  }
+
+  /**
+   * Convert an ESearch result to a search outcome with flattened diagnostics.
+   */
+  private toSearchOutcome(page: PubMedSearchPage): PubMedSearchOutcome {
+    const { warninglist = {}, errorlist = {} } = page;
+    const quoted = (label: string, phrases: string[] = []) =>
+      phrases.filter(Boolean).map((phrase) => `${label}: "${phrase}"`);
+
+    return {
+      count: Number(page.count ?? page.idlist?.length ?? 0),
+      ids: page.idlist ?? [],
+      webenv: page.webenv,
+      ...(page.querykey && { queryKey: page.querykey }),
+      ...(page.querytranslation && { translation: page.querytranslation }),
+      translationSet: page.translationset ?? [],
+      warnings: [
+        ...quoted("Phrase ignored", warninglist.phrasesignored),
+        ...quoted("Quoted phrase not found", warninglist.quotedphrasesnotfound),
+        ...(warninglist.outputmessages ?? []).filter(Boolean),
+      ],
+      errors: [
+        ...quoted("Phrase not found", errorlist.phrasesnotfound),
+        ...quoted("Field not found", errorlist.fieldsnotfound),
+      ],
+    };
+  }
+
+  /**
+   * Retrieve several articles from PubMed by UID, in batches of `fetchBatchSize`.
+   *
+   * @param uids - The PubMed article IDs
+   * @returns The metadata of the articles found, in the order of `uids`
+   */
+  private async retrieveArticles(
+    uids: string[]
+  ): Promise<PubMedArticleMetadata[]> {
+    const articles: PubMedArticleMetadata[] = [];
+    for (let start = 0; start < uids.length; start += this.fetchBatchSize) {
+      const batch = uids.slice(start, start + this.fetchBatchSize);
+      articles.push(
+        ...(await this.retrieveBatch(
+          this.urlBuilder.buildFetchByIdsUrl(batch),
+          batch
+        ))
+      );
     }
-    return docs;
+    return articles;
   }
 
   /**
-   * Retrieve a single article from PubMed by UID.
+   * Retrieve one batch of articles with a single EFetch request.
    *
-   * @param uid - The PubMed article ID
-   * @param webenv - The web environment string from the search
-   * @returns A promise that resolves to the article metadata
+   * @param fetchUrl - The EFetch URL of the batch
+   * @param uids - The UIDs of the batch, in the order to return them
+   * @returns The metadata of the articles found, in the order of `uids`
    */
-  private async retrieveArticle(
-    uid: string,
-    webenv: string
-  ): Promise<PubMedArticleMetadata> {
-    const fetchUrl = this.urlBuilder.buildFetchUrl(uid, webenv);
-    const response = await this.httpClient.fetch(fetchUrl, `article ${uid}`);
+  private async retrieveBatch(
+    fetchUrl: string,
+    uids: string[]
+  ): Promise<PubMedArticleMetadata[]> {
+    const context =
+      uids.length === 1 ? `article ${uids[0]}` : `${uids.length} articles`;
+    const response = await this.httpClient.fetch(fetchUrl, context);
 
     const xmlText = await response.text();
     const xmlResponse = this.parser.parseXML(xmlText);
 
-    return this.parser.extractArticleMetadata(uid, xmlResponse);
+    return this.parser.extractArticleList(xmlResponse, uids);
   }
 }
@@ -5,7 +5,93 @@ import {
   PubMedXMLResponse,
   PubMedArticleData,
   AbstractText,
+  PubMedAuthor,
+  PubMedAuthorData,
+  PubMedJournalCitation,
+  PubMedMedlineCitation,
+  PubMedMeshHeading,
+  PubMedPublicationType,
+  PubMedArticleIds,
+  PubMedDataSection,
+  PubMedDateData,
+  PubMedDateSource,
+  PubMedTextFormat,
+  PubMedAbstractSection,
+  PubMedKeyword,
+  PubMedChemical,
+  PubMedSupplementaryConcept,
+  PubMedGrant,
+  PubMedCommentCorrection,
+  PubMedReference,
+  PubMedReferenceList,
+  PubMedArticle,
+  PubMedBookArticle,
+  PubMedArticleMetadataBase,
+  PubMedBookCitation,
+  PubMedBookDocument,
+  PubMedBookSectionData,
+  PubMedAbstractData,
+  PubMedOtherAbstract,
+  PubMedDocSummary,
+  PubMedDocSummaryData,
+  PubMedSummaryResult,
+  PubMedSpellResponse,
+  PubMedDatabaseInfo,
+  PubMedInfoResult,
 } from "./types.js";
+import { PubMedEvidenceClassifier } from "./evidence-classifier.js";
+import { PubMedMarkupRenderer } from "./markup-renderer.js";
+
+/**
+ * Lowercase three-letter month abbreviations used by PubMed dates.
+ */
+const MONTH_ABBREVIATIONS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Date fields of the article metadata.
+ */
+type PublicationDates = Pick<
+  PubMedArticleMetadata,
+  "Published" | "publishedSource" | "electronicDate" | "printDate"
+>;
+
+/**
+ * Configuration options for the PubMed parser.
+ */
+export interface PubMedParserOptions {
+  textFormat?: PubMedTextFormat;
+  preferredLanguages?: string[];
+}
+
+/**
+ * Language of the main abstract. PubMed abstracts are in English; abstracts in
+ * other languages are given as OtherAbstract.
+ */
+const MAIN_ABSTRACT_LANGUAGE = "eng";
+
+/**
+ * Elements whose inner markup is kept raw by the XML parser, so that inline
+ * tags can be rendered in document order by {@link PubMedMarkupRenderer}.
+ */
+const MIXED_CONTENT_ELEMENTS = [
+  "*.ArticleTitle",
+  "*.BookTitle",
+  "*.VernacularTitle",
+  "*.AbstractText",
+];
 
 /**
  * Parser for PubMed XML responses.
@@ -15,12 +101,24 @@ import {
  */
 export class PubMedParser {
   private readonly parser: XMLParser;
+  private readonly evidenceClassifier: PubMedEvidenceClassifier;
+  private readonly markupRenderer: PubMedMarkupRenderer;
+  private readonly preferredLanguages: string[];
 
-  constructor() {
+  constructor(options: PubMedParserOptions = {}) {
     this.parser = new XMLParser({
       ignoreAttributes: false,
       attributeNamePrefix: "@",
+      // Keep element values as strings so identifiers such as PIIs or issue
+      // numbers don't lose leading zeros to number conversion
+      parseTagValue: false,
+      stopNodes: MIXED_CONTENT_ELEMENTS,
     });
+    this.evidenceClassifier = new PubMedEvidenceClassifier();
+    this.markupRenderer = new PubMedMarkupRenderer(options.textFormat);
+    this.preferredLanguages = (options.preferredLanguages ?? []).map(
+      (language) => language.toLowerCase()
+    );
   }
 
   /**
@@ -44,20 +142,181 @@ export class PubMedParser {
     uid: string,
     xmlResponse: PubMedXMLResponse
   ): PubMedArticleMetadata {
+    const citation = this.extractCitation(xmlResponse);
     const articleData = this.extractArticleData(xmlResponse);
-    const summary = this.extractAbstract(articleData);
-    const pubDate = this.extractPublicationDate(articleData);
+    const abstractSections = this.extractAbstractSections(articleData.Abstract);
+    const vernacularTitle = this.extractTitle(articleData.VernacularTitle);
+    const dates = this.extractPublicationDates(xmlResponse);
+    const authors = this.extractAuthors(articleData);
+    const journal = this.extractJournal(articleData);
+    const meshHeadings = this.extractMeshHeadings(citation);
+    const keywords = this.extractKeywords(citation);
+    const chemicals = this.extractChemicals(citation);
+    const supplementaryConcepts = this.extractSupplementaryConcepts(citation);
+    const grants = this.extractGrants(articleData);
+    const publicationTypes = this.extractPublicationTypes(articleData);
+    const commentsCorrections = this.extractCommentsCorrections(citation);
+    const ids = this.extractIds(uid, xmlResponse);
+    const references = this.extractReferences(xmlResponse);
+    const book = this.extractBook(xmlResponse);
 
-    return {
+    const metadata: PubMedArticleMetadataBase = {
       uid,
-      Title:
-        typeof articleData.ArticleTitle === "string"
-          ? articleData.ArticleTitle
-          : (JSON.stringify(articleData.ArticleTitle) ?? ""),
-      Published: pubDate,
+      Title: this.extractTitle(articleData.ArticleTitle) || (book?.title ?? ""),
+      ...(vernacularTitle && { vernacularTitle }),
+      languages: this.toArray(articleData.Language)
+        .map((language) => this.textOf(language))
+        .filter((language) => language !== ""),
+      ...dates,
       "Copyright Information": articleData.Abstract?.CopyrightInformation ?? "",
-      Summary: summary,
+      Summary: this.formatSummary(abstractSections),
+      abstractSections,
+      otherAbstracts: this.extractOtherAbstracts(citation),
+      authors,
+      meshHeadings,
+      keywords,
+      chemicals,
+      supplementaryConcepts,
+      grants,
+      commentsCorrections,
+      retracted:
+        commentsCorrections.some((link) => link.refType === "RetractionIn") ||
+        publicationTypes.some((type) => type.name === "Retracted Publication"),
+      references,
+      publicationTypes,
+      evidenceLevel: this.evidenceClassifier.classify(publicationTypes),
+      ids,
+    };
+
+    if (book) {
+      return { kind: "book", ...metadata, book };
+    }
+    return { kind: "journal", ...metadata, ...(journal && { journal }) };
+  }
+
+  /**
+   * Extract the metadata of every article in a multi-article EFetch response.
+   * Journal and book articles are both included. When `uids` is given, the
+   * articles are returned in that order (e.g. the search order) and UIDs
+   * missing from the response are skipped; otherwise journal articles come
+   * first, followed by book articles.
+   *
+   * @param xmlResponse - The parsed XML response
+   * @param uids - The requested UIDs in the order the articles should be returned
+   * @returns Structured metadata of each article, keyed by its PMID as `uid`
+   */
+  extractArticleList(
+    xmlResponse: PubMedXMLResponse,
+    uids?: string[]
+  ): PubMedArticleMetadata[] {
+    // fast-xml-parser yields an array when the set holds several articles of a kind
+    const articles = [
+      ...this.toArray<PubMedArticle>(
+        xmlResponse.PubmedArticleSet?.PubmedArticle
+      ).map((article) =>
+        this.extractArticleMetadata(
+          this.textOf(article.MedlineCitation?.PMID),
+          { PubmedArticleSet: { PubmedArticle: article } }
+        )
+      ),
+      ...this.toArray<PubMedBookArticle>(
+        xmlResponse.PubmedArticleSet?.PubmedBookArticle
+      ).map((bookArticle) =>
+        this.extractArticleMetadata(
+          this.textOf(bookArticle.BookDocument?.PMID),
+          { PubmedArticleSet: { PubmedBookArticle: bookArticle } }
+        )
+      ),
+    ];
+
+    if (!uids) {
+      return articles;
+    }
+
+    const articlesById = new Map<string, PubMedArticleMetadata>();
+    for (const article of articles) {
+      if (!articlesById.has(article.uid)) {
+        articlesById.set(article.uid, article);
+      }
+    }
+    return uids
+      .map((uid) => articlesById.get(uid))
+      .filter((article): article is PubMedArticleMetadata => Boolean(article));
+  }
+
+  /**
+   * Extract document summaries from an ESummary JSON response.
+   * When `uids` is given, summaries are returned in that order and UIDs
+   * without a summary (e.g. unknown IDs, reported by ESummary as errors) are
+   * skipped; otherwise they follow the `uids` list of the response.
+   *
+   * @param response - The parsed JSON response
+   * @param uids - The requested UIDs in the order the summaries should be returned
+   * @returns The document summary of each record
+   */
+  extractDocSummaries(
+    response: PubMedSummaryResult,
+    uids?: string[]
+  ): PubMedDocSummary[] {
+    const result = response.result ?? {};
+    return (uids ?? result.uids ?? [])
+      .map((uid) => result[uid])
+      .filter(
+        (data): data is PubMedDocSummaryData =>
+          Boolean(data) && !Array.isArray(data) && !data?.error
+      )
+      .map((data) => this.toDocSummary(data));
+  }
+
+  /**
+   * Extract the corrected query from an ESpell XML response.
+   *
+   * @param xmlText - The raw XML text
+   * @returns The corrected query, or an empty string when ESpell has no suggestion
+   */
+  extractCorrectedQuery(xmlText: string): string {
+    const response = this.parser.parse(xmlText) as PubMedSpellResponse;
+    return this.textOf(response.eSpellResult?.CorrectedQuery);
+  }
+
+  /**
+   * Extract the database description from an EInfo JSON response.
+   *
+   * @param response - The parsed JSON response
+   * @returns The database description, with its search fields and links
+   * @throws Error if the response holds no database description
+   */
+  extractDatabaseInfo(response: PubMedInfoResult): PubMedDatabaseInfo {
+    const [data] = this.toArray(response.einforesult?.dbinfo);
+    if (!data) {
+      throw new Error("Invalid response from PubMed EInfo API");
+    }
+
+    const info: PubMedDatabaseInfo = {
+      name: data.dbname,
+      description: data.description ?? "",
+      count: Number(data.count ?? 0),
+      lastUpdate: data.lastupdate ?? "",
+      fields: (data.fieldlist ?? []).map((field) => ({
+        name: field.name,
+        fullName: field.fullname ?? field.name,
+        description: field.description ?? "",
+        isDate: field.isdate === "Y",
+        isNumerical: field.isnumerical === "Y",
+        isHidden: field.ishidden === "Y",
+      })),
+      links: (data.linklist ?? []).map((link) => ({
+        name: link.name,
+        menu: link.menu ?? "",
+        description: link.description ?? "",
+        dbTo: link.dbto ?? "",
+      })),
     };
+
+    if (data.menuname) info.menuName = data.menuname;
+    if (data.dbbuild) info.build = data.dbbuild;
+
+    return info;
   }
 
   /**
@@ -67,13 +326,135 @@ export class PubMedParser {
    * @returns A Document instance
    */
   toDocument(metadata: PubMedArticleMetadata): Document {
-    const { Summary, ...metadataFields } = metadata;
+    const metadataFields: Partial<PubMedArticleMetadata> = { ...metadata };
+    delete metadataFields.Summary;
+    const { text, language } = this.selectAbstract(metadata);
     return new Document({
-      pageContent: Summary,
-      metadata: metadataFields,
+      pageContent: text,
+      metadata: {
+        ...metadataFields,
+        ...(language && { abstractLanguage: language }),
+        ...this.buildUrls(metadata),
+      },
     });
   }
 
+  /**
+   * Convert article metadata to one LangChain Document per abstract section.
+   * Each Document carries the shared article metadata plus the section's label
+   * and NLM category; the full section list is left out to keep metadata small.
+   * Articles without abstract sections yield a single Document as in {@link toDocument}.
+   *
+   * @param metadata - The article metadata
+   * @returns The section Documents in abstract order
+   */
+  toSectionDocuments(metadata: PubMedArticleMetadata): Document[] {
+    const articleDocument = this.toDocument(metadata);
+    if (metadata.abstractSections.length === 0) {
+      return [articleDocument];
+    }
+
+    const sharedMetadata = { ...articleDocument.metadata };
+    delete sharedMetadata.abstractSections;
+    delete sharedMetadata.abstractLanguage;
+
+    return metadata.abstractSections.map(
+      (section, index) =>
+        new Document({
+          pageContent: section.text,
+          metadata: {
+            ...sharedMetadata,
+            sectionIndex: index,
+            ...(section.label && { section: section.label }),
+            ...(section.nlmCategory && { nlmCategory: section.nlmCategory }),
+          },
+        })
+    );
+  }
+
+  /**
+   * Convert a single ESummary document summary.
+   */
+  private toDocSummary(data: PubMedDocSummaryData): PubMedDocSummary {
+    const articleIds = new Map(
+      (data.articleids ?? []).map((id) => [id.idtype.toLowerCase(), id.value])
+    );
+    const publicationTypes = data.pubtype ?? [];
+    const summary: PubMedDocSummary = {
+      uid: String(data.uid),
+      title: this.markupRenderer.render(data.title ?? ""),
+      authors: (data.authors ?? [])
+        .filter((author) => !author.authtype || author.authtype === "Author")
+        .map((author) => author.name)
+        .filter(Boolean),
+      source: data.source ?? "",
+      pubdate: data.pubdate ?? "",
+      languages: data.lang ?? [],
+      publicationTypes,
+      hasAbstract: (data.attributes ?? []).includes("Has Abstract"),
+      retracted: publicationTypes.includes("Retracted Publication"),
+    };
+
+    const pmcid = articleIds.get("pmc");
+    const doi = articleIds.get("doi");
+
+    if (data.fulljournalname) summary.fullJournalName = data.fulljournalname;
+    if (data.epubdate) summary.epubdate = data.epubdate;
+    if (data.volume) summary.volume = data.volume;
+    if (data.issue) summary.issue = data.issue;
+    if (data.pages) summary.pages = data.pages;
+    if (doi) summary.doi = doi;
+    if (pmcid) summary.pmcid = pmcid;
+
+    return summary;
+  }
+
+  /**
+   * Pick the abstract used as Document content according to the preferred languages.
+   * Returns the language only when an other-language abstract was chosen.
+   */
+  private selectAbstract(metadata: PubMedArticleMetadata): {
+    text: string;
+    language?: string;
+  } {
+    for (const preferred of this.preferredLanguages) {
+      if (
+        preferred === MAIN_ABSTRACT_LANGUAGE &&
+        metadata.abstractSections.length > 0
+      ) {
+        break;
+      }
+      const other = metadata.otherAbstracts.find(
+        (abstract) => abstract.language?.toLowerCase() === preferred
+      );
+      if (other) {
+        return { text: other.text, language: other.language };
+      }
+    }
+    return { text: metadata.Summary };
+  }
+
+  /**
+   * Build canonical URLs for an article from its identifiers.
+   * `source` points to the PubMed record; DOI, PMC and Bookshelf links are added when known.
+   */
+  private buildUrls(metadata: PubMedArticleMetadata): Record<string, string> {
+    const { ids } = metadata;
+    const urls: Record<string, string> = {
+      source: `https://pubmed.ncbi.nlm.nih.gov/${ids.pmid}/`,
+    };
+    if (ids.doi) {
+      urls.doiUrl = `https://doi.org/${ids.doi}`;
+    }
+    if (ids.pmcid) {
+      urls.pmcUrl = `https://pmc.ncbi.nlm.nih.gov/articles/${ids.pmcid}/`;
+    }
+    if (metadata.kind === "book" && ids.other.bookaccession) {
+      urls.bookshelfUrl = `https://www.ncbi.nlm.nih.gov/books/${ids.other.bookaccession}/`;
+    }
+    return urls;
+  }
+
   /**
    * Extract article data from the XML response.
    */
@@ -92,81 +473,698 @@ export class PubMedParser {
   }
 
   /**
-   * Extract and format the abstract text from article data.
+   * Extract the MEDLINE citation from the XML response.
+   * Book articles have no MEDLINE citation.
    */
-  private extractAbstract(articleData: PubMedArticleData): string {
-    const abstractText = articleData.Abstract?.AbstractText;
+  private extractCitation(
+    xmlResponse: PubMedXMLResponse
+  ): Partial<PubMedMedlineCitation> {
+    try {
+      return xmlResponse.PubmedArticleSet.PubmedArticle?.MedlineCitation ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Extract the PubMed data section (identifiers, history) from the XML response.
+   */
+  private extractPubmedData(xmlResponse: PubMedXMLResponse): PubMedDataSection {
+    try {
+      return (
+        xmlResponse.PubmedArticleSet.PubmedArticle?.PubmedData ??
+        xmlResponse.PubmedArticleSet.PubmedBookArticle?.PubmedBookData ??
+        {}
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Extract an article or book title, rendering inline markup in the configured format.
+   */
+  private extractTitle(title: PubMedArticleData["ArticleTitle"]): string {
+    if (typeof title === "string") {
+      return this.renderMarkup(title);
+    }
+
+    if (typeof title === "object" && title !== null) {
+      if ("#text" in title) {
+        return this.renderMarkup(title["#text"]);
+      }
+      return Object.values(title)
+        .filter((value) => typeof value === "string")
+        .join(" ");
+    }
+
+    return "";
+  }
+
+  /**
+   * Render raw mixed-content markup of an element in the configured format.
+   */
+  private renderMarkup(value: unknown): string {
+    if (typeof value === "number") {
+      return String(value);
+    }
+    return typeof value === "string" ? this.markupRenderer.render(value) : "";
+  }
+
+  /**
+   * Extract the sections of an abstract.
+   * Labelled (structured) and unlabelled paragraphs are both kept, in document order.
+   */
+  private extractAbstractSections(
+    abstract: PubMedAbstractData | undefined
+  ): PubMedAbstractSection[] {
+    const abstractText = abstract?.AbstractText;
 
     if (!abstractText) {
+      return [];
+    }
+
+    if (Array.isArray(abstractText) || typeof abstractText === "string") {
+      return this.toArray<unknown>(abstractText)
+        .map((section) => this.toAbstractSection(section))
+        .filter((section) => section.text !== "");
+    }
+
+    if (typeof abstractText === "object" && "#text" in abstractText) {
+      return [this.toAbstractSection(abstractText)].filter(
+        (section) => section.text !== ""
+      );
+    }
+
+    return this.extractAbstractObjectSections(abstractText);
+  }
+
+  /**
+   * Extract the additional abstracts (OtherAbstract) from the MEDLINE citation.
+   */
+  private extractOtherAbstracts(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedOtherAbstract[] {
+    return this.toArray(citation.OtherAbstract)
+      .map((abstract) => {
+        const sections = this.extractAbstractSections(abstract);
+        const language = this.textOf(abstract["@Language"]);
+        const type = this.textOf(abstract["@Type"]);
+        return {
+          ...(language && { language }),
+          ...(type && { type }),
+          sections,
+          text: this.formatSummary(sections),
+        };
+      })
+      .filter((abstract) => abstract.sections.length > 0);
+  }
+
+  /**
+   * Convert a single AbstractText element into an abstract section.
+   */
+  private toAbstractSection(section: unknown): PubMedAbstractSection {
+    if (typeof section !== "object" || section === null) {
+      return { text: this.renderMarkup(section) };
+    }
+
+    const node = section as AbstractText;
+    const label = this.textOf(node["@Label"]);
+    const nlmCategory = this.textOf(node["@NlmCategory"]);
+    return {
+      ...(label && { label }),
+      ...(nlmCategory && { nlmCategory }),
+      text: this.renderMarkup(node["#text"]),
+    };
+  }
+
+  /**
+   * Read abstract sections from an object by taking its string values.
+   * Only reached for objects built without the mixed-content handling of {@link parseXML}.
+   */
+  private extractAbstractObjectSections(
+    abstractObj: object
+  ): PubMedAbstractSection[] {
+    return Object.values(abstractObj)
+      .filter((value) => typeof value === "string")
+      .map((value) => ({ text: this.renderMarkup(value) }));
+  }
+
+  /**
+   * Format abstract sections as a summary, prefixing labelled sections with their label.
+   */
+  private formatSummary(sections: PubMedAbstractSection[]): string {
+    if (sections.length === 0) {
       return "No abstract available";
     }
+    return sections
+      .map((section) =>
+        section.label ? `${section.label}: ${section.text}` : section.text
+      )
+      .join("\n");
+  }
+
+  /**
+   * Extract the author list from article data.
+   * Editor lists (used by book documents) and authors flagged as invalid are skipped.
+   */
+  private extractAuthors(articleData: PubMedArticleData): PubMedAuthor[] {
+    return this.toArray(articleData.AuthorList)
+      .filter((list) => list["@Type"] !== "editors")
+      .flatMap((list) => this.toArray(list.Author))
+      .filter((author) => author["@ValidYN"] !== "N")
+      .map((author) => this.toAuthor(author));
+  }
+
+  /**
+   * Convert a single XML author element into an author record.
+   */
+  private toAuthor(author: PubMedAuthorData): PubMedAuthor {
+    const result: PubMedAuthor = {
+      affiliations: this.toArray(author.AffiliationInfo)
+        .map((info) => this.textOf(info.Affiliation))
+        .filter((affiliation) => affiliation !== ""),
+      equalContrib: author["@EqualContrib"] === "Y",
+    };
+
+    const lastName = this.textOf(author.LastName);
+    const foreName = this.textOf(author.ForeName);
+    const initials = this.textOf(author.Initials);
+    const collectiveName = this.textOf(author.CollectiveName);
+    const orcid = this.toArray(author.Identifier).find(
+      (identifier) => identifier["@Source"] === "ORCID"
+    );
 
-    if (Array.isArray(abstractText)) {
-      return this.formatAbstractArray(abstractText);
+    if (lastName) result.lastName = lastName;
+    if (foreName) result.foreName = foreName;
+    if (initials) result.initials = initials;
+    if (collectiveName) result.collectiveName = collectiveName;
+    if (orcid) {
+      result.orcid = this.textOf(orcid).replace(
+        /^https?:\/\/orcid\.org\//i,
+        ""
+      );
     }
 
-    if (typeof abstractText === "string") {
-      return abstractText;
+    return result;
+  }
+
+  /**
+   * Extract journal citation details from article data.
+   * Returns undefined when the record has no journal (e.g. book documents).
+   */
+  private extractJournal(
+    articleData: PubMedArticleData
+  ): PubMedJournalCitation | undefined {
+    const journalData = articleData.Journal;
+    if (!journalData) {
+      return undefined;
     }
 
-    if (typeof abstractText === "object") {
-      return this.formatAbstractObject(abstractText);
+    const issns = this.toArray(journalData.ISSN);
+    const fields: Omit<PubMedJournalCitation, "eLocationIds"> = {
+      title: this.textOf(journalData.Title),
+      isoAbbreviation: this.textOf(journalData.ISOAbbreviation),
+      issnPrint: this.textOf(
+        issns.find((issn) => issn["@IssnType"] === "Print")
+      ),
+      issnElectronic: this.textOf(
+        issns.find((issn) => issn["@IssnType"] === "Electronic")
+      ),
+      volume: this.textOf(journalData.JournalIssue?.Volume),
+      issue: this.textOf(journalData.JournalIssue?.Issue),
+      pages: this.textOf(articleData.Pagination?.MedlinePgn),
+      startPage: this.textOf(articleData.Pagination?.StartPage),
+      endPage: this.textOf(articleData.Pagination?.EndPage),
+    };
+
+    const journal: PubMedJournalCitation = {
+      eLocationIds: this.toArray(articleData.ELocationID)
+        .filter((location) => location["@ValidYN"] !== "N")
+        .map((location) => ({
+          type: String(location["@EIdType"] ?? ""),
+          value: this.textOf(location),
+        }))
+        .filter((location) => location.value !== ""),
+    };
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value) {
+        journal[key as keyof typeof fields] = value;
+      }
     }
 
-    return "No abstract available";
+    return journal;
   }
 
   /**
-   * Format an array of abstract sections with labels.
+   * Extract book citation details from a book document.
+   * Returns undefined for journal articles.
    */
-  private formatAbstractArray(abstractArray: unknown[]): string {
-    const summaries: string[] = [];
+  private extractBook(
+    xmlResponse: PubMedXMLResponse
+  ): PubMedBookCitation | undefined {
+    const bookDocument =
+      xmlResponse.PubmedArticleSet?.PubmedBookArticle?.BookDocument;
+    if (!bookDocument) {
+      return undefined;
+    }
 
-    for (const txt of abstractArray) {
-      if (
-        typeof txt === "object" &&
-        txt !== null &&
-        "#text" in txt &&
-        "@Label" in txt
-      ) {
-        const section = txt as AbstractText;
-        summaries.push(`${section["@Label"]}: ${section["#text"]}`);
+    const bookData = bookDocument.Book ?? {};
+    const editors = [bookData.AuthorList, bookDocument.AuthorList]
+      .flatMap((lists) => this.toArray(lists))
+      .filter((list) => list["@Type"] === "editors")
+      .flatMap((list) => this.toArray(list.Author))
+      .filter((author) => author["@ValidYN"] !== "N")
+      .map((author) => this.toAuthor(author));
+
+    const fields: Omit<
+      PubMedBookCitation,
+      "title" | "editors" | "sectionTitles"
+    > = {
+      publisher: this.textOf(bookData.Publisher?.PublisherName),
+      publisherLocation: this.textOf(bookData.Publisher?.PublisherLocation),
+      edition: this.textOf(bookData.Edition),
+      volume: this.textOf(bookData.Volume),
+      collectionTitle: this.textOf(bookData.CollectionTitle),
+      locationLabel: this.textOf(this.toArray(bookDocument.LocationLabel)[0]),
+    };
+
+    const book: PubMedBookCitation = {
+      title: this.extractTitle(bookData.BookTitle),
+      editors,
+      sectionTitles: this.extractSectionTitles(bookDocument.Sections?.Section),
+    };
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value) {
+        book[key as keyof typeof fields] = value;
       }
     }
 
-    return summaries.length > 0
-      ? summaries.join("\n")
-      : "No abstract available";
+    return book;
+  }
+
+  /**
+   * Collect the titles of book sections in document order, descending into
+   * nested sections.
+   */
+  private extractSectionTitles(
+    sections: PubMedBookSectionData | PubMedBookSectionData[] | undefined
+  ): string[] {
+    return this.toArray(sections).flatMap((section) => {
+      const title = this.textOf(section.SectionTitle);
+      return [
+        ...(title ? [title] : []),
+        ...this.extractSectionTitles(section.Section),
+      ];
+    });
+  }
+
+  /**
+   * Extract MeSH headings with their qualifiers from the MEDLINE citation.
+   */
+  private extractMeshHeadings(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedMeshHeading[] {
+    return this.toArray(citation.MeshHeadingList?.MeshHeading)
+      .map((heading) => {
+        const qualifiers = this.toArray(heading.QualifierName).map(
+          (qualifier) => ({
+            name: this.textOf(qualifier),
+            ...this.meshAttributes(qualifier),
+          })
+        );
+        const descriptorAttributes = this.meshAttributes(
+          heading.DescriptorName
+        );
+
+        const result: PubMedMeshHeading = {
+          descriptor: this.textOf(heading.DescriptorName),
+          majorTopic:
+            descriptorAttributes.majorTopic ||
+            qualifiers.some((qualifier) => qualifier.majorTopic),
+          qualifiers,
+        };
+        if (descriptorAttributes.ui) {
+          result.descriptorUi = descriptorAttributes.ui;
+        }
+        return result;
+      })
+      .filter((heading) => heading.descriptor !== "");
+  }
+
+  /**
+   * Extract keywords from all keyword lists of the MEDLINE citation.
+   */
+  private extractKeywords(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedKeyword[] {
+    return this.toArray(citation.KeywordList).flatMap((list) => {
+      const owner = this.textOf(list["@Owner"]);
+      return this.toArray(list.Keyword)
+        .map((keyword) => ({
+          keyword: this.textOf(keyword),
+          ...(owner && { owner }),
+          majorTopic: this.meshAttributes(keyword).majorTopic,
+        }))
+        .filter((keyword) => keyword.keyword !== "");
+    });
+  }
+
+  /**
+   * Extract chemical substances from the MEDLINE citation.
+   */
+  private extractChemicals(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedChemical[] {
+    return this.toArray(citation.ChemicalList?.Chemical)
+      .map((chemical) => {
+        const { ui } = this.meshAttributes(chemical.NameOfSubstance);
+        const registryNumber = this.textOf(chemical.RegistryNumber);
+        return {
+          name: this.textOf(chemical.NameOfSubstance),
+          ...(ui && { ui }),
+          ...(registryNumber && registryNumber !== "0" && { registryNumber }),
+        };
+      })
+      .filter((chemical) => chemical.name !== "");
+  }
+
+  /**
+   * Extract supplementary MeSH concepts from the MEDLINE citation.
+   */
+  private extractSupplementaryConcepts(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedSupplementaryConcept[] {
+    return this.toArray(citation.SupplMeshList?.SupplMeshName)
+      .map((concept) => {
+        const { ui } = this.meshAttributes(concept);
+        const type =
+          typeof concept === "object" ? this.textOf(concept["@Type"]) : "";
+        return {
+          name: this.textOf(concept),
+          ...(ui && { ui }),
+          ...(type && { type }),
+        };
+      })
+      .filter((concept) => concept.name !== "");
+  }
+
+  /**
+   * Extract grants from article data.
+   */
+  private extractGrants(articleData: PubMedArticleData): PubMedGrant[] {
+    return this.toArray(articleData.GrantList?.Grant)
+      .map((grant) => {
+        const result: PubMedGrant = {};
+        const grantId = this.textOf(grant.GrantID);
+        const acronym = this.textOf(grant.Acronym);
+        const agency = this.textOf(grant.Agency);
+        const country = this.textOf(grant.Country);
+
+        if (grantId) result.grantId = grantId;
+        if (acronym) result.acronym = acronym;
+        if (agency) result.agency = agency;
+        if (country) result.country = country;
+
+        return result;
+      })
+      .filter((grant) => Object.keys(grant).length > 0);
+  }
+
+  /**
+   * Extract links to related records (retractions, errata, comments, updates)
+   * from the MEDLINE citation.
+   */
+  private extractCommentsCorrections(
+    citation: Partial<PubMedMedlineCitation>
+  ): PubMedCommentCorrection[] {
+    return this.toArray(citation.CommentsCorrectionsList?.CommentsCorrections)
+      .map((link) => {
+        const refSource = this.textOf(link.RefSource);
+        const pmid = this.textOf(link.PMID);
+        return {
+          refType: this.textOf(link["@RefType"]),
+          ...(refSource && { refSource }),
+          ...(pmid && { pmid }),
+        };
+      })
+      .filter((link) => link.refType !== "");
+  }
+
+  /**
+   * Extract the reference list of the article, flattening nested lists.
+   */
+  private extractReferences(xmlResponse: PubMedXMLResponse): PubMedReference[] {
+    const collect = (
+      lists: PubMedReferenceList | PubMedReferenceList[] | undefined
+    ): PubMedReference[] =>
+      this.toArray(lists).flatMap((list) => [
+        ...this.toArray(list.Reference).map((reference) => {
+          const result: PubMedReference = {};
+          const citation = this.textOf(reference.Citation);
+          if (citation) result.citation = citation;
+
+          for (const articleId of this.toArray(
+            reference.ArticleIdList?.ArticleId
+          )) {
+            const type = this.textOf(articleId["@IdType"]).toLowerCase();
+            const value = this.textOf(articleId);
+            if (!value) continue;
+
+            if (type === "pubmed") result.pmid ??= value;
+            if (type === "doi") result.doi ??= value;
+            if (type === "pmc") result.pmcid ??= value;
+          }
+          return result;
+        }),
+        ...collect(list.ReferenceList),
+      ]);
+
+    return collect(this.extractPubmedData(xmlResponse).ReferenceList).filter(
+      (reference) => Object.keys(reference).length > 0
+    );
+  }
+
+  /**
+   * Extract publication types with their MeSH UIs from article data.
+   */
+  private extractPublicationTypes(
+    articleData: PubMedArticleData
+  ): PubMedPublicationType[] {
+    // Book documents list their publication types without a wrapping list
+    const types =
+      articleData.PublicationTypeList?.PublicationType ??
+      (articleData as PubMedBookDocument).PublicationType;
+    return this.toArray(types)
+      .map((type) => {
+        const { ui } = this.meshAttributes(type);
+        return { name: this.textOf(type), ...(ui && { ui }) };
+      })
+      .filter((type) => type.name !== "");
   }
 
   /**
-   * Format an abstract object by joining its string values.
+   * Extract article identifiers from the ArticleIdList, falling back to the
+   * citation PMID and the DOI given as ELocationID.
    */
-  private formatAbstractObject(abstractObj: object): string {
-    const values = Object.values(abstractObj).filter(
-      (v) => typeof v === "string"
+  private extractIds(
+    uid: string,
+    xmlResponse: PubMedXMLResponse
+  ): PubMedArticleIds {
+    const idsByType: Record<string, string> = {};
+    // Book documents carry their Bookshelf accession in their own ArticleIdList
+    const articleIds = [
+      this.extractPubmedData(xmlResponse).ArticleIdList?.ArticleId,
+      xmlResponse.PubmedArticleSet?.PubmedBookArticle?.BookDocument
+        ?.ArticleIdList?.ArticleId,
+    ].flatMap((list) => this.toArray(list));
+    for (const articleId of articleIds) {
+      const type = this.textOf(articleId["@IdType"]).toLowerCase();
+      const value = this.textOf(articleId);
+      if (type && value && !(type in idsByType)) {
+        idsByType[type] = value;
+      }
+    }
+
+    const citationPmid =
+      this.extractCitation(xmlResponse).PMID ??
+      xmlResponse.PubmedArticleSet?.PubmedBookArticle?.BookDocument?.PMID;
+    const eLocationDoi = this.toArray(
+      this.extractArticleData(xmlResponse).ELocationID
+    ).find(
+      (location) =>
+        location["@EIdType"] === "doi" && location["@ValidYN"] !== "N"
+    );
+
+    const { pubmed, doi, pmc, pii, mid, ...other } = idsByType;
+    const ids: PubMedArticleIds = {
+      pmid: pubmed || this.textOf(citationPmid) || uid,
+      other,
+    };
+
+    const pmidVersion = this.textOf(
+      typeof citationPmid === "object" ? citationPmid["@Version"] : undefined
     );
-    return values.length > 0 ? values.join("\n") : "No abstract available";
+    const resolvedDoi = doi || this.textOf(eLocationDoi);
+
+    if (pmidVersion) ids.pmidVersion = pmidVersion;
+    if (resolvedDoi) ids.doi = resolvedDoi;
+    if (pmc) ids.pmcid = pmc;
+    if (pii) ids.pii = pii;
+    if (mid) ids.mid = mid;
+
+    return ids;
   }
 
   /**
-   * Extract and format the publication date.
-   * Returns date in ISO 8601 format (YYYY-MM-DD) with leading zeros.
+   * Read the UI and MajorTopicYN attributes of a MeSH descriptor or qualifier.
    */
-  private extractPublicationDate(articleData: PubMedArticleData): string {
-    const articleDate = articleData.ArticleDate ?? {};
-    const parts = [];
+  private meshAttributes(value: unknown): { ui?: string; majorTopic: boolean } {
+    if (typeof value !== "object" || value === null) {
+      return { majorTopic: false };
+    }
+
+    const node = value as Record<string, unknown>;
+    const ui = this.textOf(node["@UI"]);
+    return {
+      ...(ui && { ui }),
+      majorTopic: node["@MajorTopicYN"] === "Y",
+    };
+  }
 
-    if (articleDate.Year) {
-      parts.push(String(articleDate.Year));
+  /**
+   * Normalize a repeatable XML element to an array.
+   * fast-xml-parser yields a single object for one occurrence and an array for several.
+   */
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+      return [];
     }
-    if (articleDate.Month) {
-      parts.push(String(articleDate.Month).padStart(2, "0"));
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * Read the text content of an XML element.
+   * Handles plain values as well as elements with attributes (`#text`).
+   */
+  private textOf(value: unknown): string {
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value).trim();
     }
-    if (articleDate.Day) {
-      parts.push(String(articleDate.Day).padStart(2, "0"));
+    if (typeof value === "object" && value !== null && "#text" in value) {
+      return this.textOf((value as { "#text": unknown })["#text"]);
+    }
+    return "";
+  }
+
+  /**
+   * Extract the publication date along with the electronic and print dates.
+   * The first usable date of the fallback chain described by
+   * {@link PubMedDateSource} becomes `Published`.
+   */
+  private extractPublicationDates(
+    xmlResponse: PubMedXMLResponse
+  ): PublicationDates {
+    const articleData = this.extractArticleData(xmlResponse);
+    const articleDates = this.toArray(articleData.ArticleDate);
+    const electronicDate = this.formatDate(
+      articleDates.find((date) => date["@DateType"] === "Electronic") ??
+        articleDates[0]
+    );
+
+    const pubDate = articleData.Journal?.JournalIssue?.PubDate;
+    const printDate =
+      this.formatDate(pubDate) || this.parseMedlineDate(pubDate?.MedlineDate);
+
+    const history = this.toArray(
+      this.extractPubmedData(xmlResponse).History?.PubMedPubDate
+    );
+    const historyDate = (status: string) =>
+      this.formatDate(history.find((date) => date["@PubStatus"] === status));
+
+    const candidates: [PubMedDateSource, string][] = [
+      ["article-date", electronicDate],
+      ["pub-date", this.formatDate(pubDate)],
+      ["medline-date", this.parseMedlineDate(pubDate?.MedlineDate)],
+      [
+        "contribution-date",
+        this.formatDate(
+          xmlResponse.PubmedArticleSet?.PubmedBookArticle?.BookDocument
+            ?.ContributionDate
+        ),
+      ],
+      ["history-pubmed", historyDate("pubmed")],
+      ["history-entrez", historyDate("entrez")],
+      ["history-accepted", historyDate("accepted")],
+    ];
+
+    const result: PublicationDates = { Published: "" };
+    for (const [source, date] of candidates) {
+      if (date) {
+        result.Published = date;
+        result.publishedSource = source;
+        break;
+      }
+    }
+
+    if (electronicDate) result.electronicDate = electronicDate;
+    if (printDate) result.printDate = printDate;
+
+    return result;
+  }
+
+  /**
+   * Format a structured date in ISO 8601 format (YYYY-MM-DD) with leading zeros.
+   * Month and day are omitted when missing; month names are normalized ("Jan" -> "01").
+   */
+  private formatDate(date: PubMedDateData | undefined): string {
+    const year = this.textOf(date?.Year);
+    if (!year) {
+      return "";
+    }
+
+    const parts = [year];
+    const month = this.normalizeMonth(this.textOf(date?.Month));
+    if (month) {
+      parts.push(month);
+      const day = this.textOf(date?.Day);
+      if (day) {
+        parts.push(day.padStart(2, "0"));
+      }
     }
 
     return parts.join("-");
   }
+
+  /**
+   * Parse a free-text MedlineDate such as "2019 Nov-Dec" or "1998 Dec-1999 Jan".
+   * Only the start of the range is kept; seasons are reduced to the year.
+   */
+  private parseMedlineDate(medlineDate: string | undefined): string {
+    const match = /^(\d{4})(?:\s+([A-Za-z]+|\d{1,2})(?:\s+(\d{1,2}))?)?/.exec(
+      this.textOf(medlineDate)
+    );
+    if (!match) {
+      return "";
+    }
+
+    const [, Year, Month, Day] = match;
+    return this.formatDate({ Year, Month, Day });
+  }
+
+  /**
+   * Normalize a month given as number ("1", "01") or name ("Jan", "January")
+   * to two digits. Returns an empty string for unknown values such as seasons.
+   */
+  private normalizeMonth(month: string): string {
+    if (/^\d{1,2}$/.test(month)) {
+      const value = Number(month);
+      return value >= 1 && value <= 12 ? String(value).padStart(2, "0") : "";
+    }
+
+    const index = MONTH_ABBREVIATIONS.indexOf(month.slice(0, 3).toLowerCase());
+    return index >= 0 ? String(index + 1).padStart(2, "0") : "";
+  }
 }
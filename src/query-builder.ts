@@ -0,0 +1,269 @@
+import { PubMedQueryField } from "./types.js";
+import { SEARCH_DATE_PATTERN } from "./url-builder.js";
+
+/**
+ * Field tags accepted by {@link PubMedQuery}.
+ */
+const QUERY_FIELDS: readonly PubMedQueryField[] = [
+  "ti",
+  "tiab",
+  "au",
+  "mh",
+  "majr",
+  "pt",
+  "dp",
+  "la",
+];
+
+/**
+ * Characters with a meaning in PubMed query syntax that are removed from term text:
+ * phrase quotes, grouping parentheses, field tag brackets, the truncation wildcard,
+ * History server references (`#1`) and range separators (`1990:2000`).
+ */
+const RESERVED_CHARACTERS = /["()[\]*#:]/g;
+
+/**
+ * Boolean operator words, quoted when they are a whole term so that they are
+ * searched as text instead of joining the surrounding terms.
+ */
+const OPERATOR_WORDS = /^(AND|OR|NOT)$/i;
+
+/**
+ * PubMed requires at least four characters before a truncation wildcard.
+ */
+const MIN_TRUNCATION_LENGTH = 4;
+
+/**
+ * Boolean operators combining query operands.
+ */
+type PubMedQueryOperator = "AND" | "OR" | "NOT";
+
+/**
+ * Operand of a boolean group: a query, or plain text searched as a term in all fields.
+ */
+type PubMedQueryOperand = PubMedQuery | string;
+
+/**
+ * Immutable builder for PubMed search terms.
+ *
+ * Queries are composed from terms, phrases, truncated terms and date ranges,
+ * optionally restricted to a field tag, and combined with AND/OR/NOT groups.
+ * Term text is escaped and nested groups are parenthesized, so the serialized
+ * term string can be passed to ESearch as is.
+ *
+ * @example
+ * ```typescript
+ * const query = PubMedQuery.and(
+ *   PubMedQuery.or(
+ *     PubMedQuery.term("COVID-19", "mh"),
+ *     PubMedQuery.phrase("sars-cov-2 infection", "tiab")
+ *   ),
+ *   PubMedQuery.truncated("vaccin", "tiab"),
+ *   PubMedQuery.dateRange("2020", "2024")
+ * ).not(PubMedQuery.term("Review", "pt"));
+ *
+ * query.toString();
+ * // ((COVID-19[mh] OR "sars-cov-2 infection"[tiab]) AND vaccin*[tiab]
+ * //   AND 2020:2024[dp]) NOT Review[pt]
+ * ```
+ */
+export class PubMedQuery {
+  private constructor(
+    private readonly expression: string,
+    private readonly operator?: PubMedQueryOperator
+  ) {}
+
+  /**
+   * Create a term, optionally restricted to a field.
+   * Multi-word terms and the words AND/OR/NOT are quoted so they cannot be
+   * read as operators.
+   *
+   * @param text - The term text
+   * @param field - Optional field tag
+   * @returns The query
+   * @throws Error if the term is empty or the field tag is unknown
+   */
+  static term(text: string, field?: PubMedQueryField): PubMedQuery {
+    const term = PubMedQuery.escape(text);
+    return PubMedQuery.tagged(
+      /\s/.test(term) || OPERATOR_WORDS.test(term) ? `"${term}"` : term,
+      field
+    );
+  }
+
+  /**
+   * Create a quoted phrase, optionally restricted to a field.
+   * Quoting disables PubMed's automatic term mapping for the phrase.
+   *
+   * @param text - The phrase text
+   * @param field - Optional field tag
+   * @returns The query
+   * @throws Error if the phrase is empty or the field tag is unknown
+   */
+  static phrase(text: string, field?: PubMedQueryField): PubMedQuery {
+    return PubMedQuery.tagged(`"${PubMedQuery.escape(text)}"`, field);
+  }
+
+  /**
+   * Create a truncated term matching every word that starts with the prefix,
+   * e.g. `vaccin*` for vaccine, vaccines and vaccination.
+   *
+   * @param prefix - The word prefix, at least four characters long
+   * @param field - Optional field tag
+   * @returns The query
+   * @throws Error if the prefix is too short or the field tag is unknown
+   */
+  static truncated(prefix: string, field?: PubMedQueryField): PubMedQuery {
+    const term = PubMedQuery.escape(prefix);
+    const lastWord = term.split(" ").pop() ?? "";
+    if (lastWord.length < MIN_TRUNCATION_LENGTH) {
+      throw new Error(
+        `Truncated term "${term}" needs at least ${MIN_TRUNCATION_LENGTH} characters before the wildcard`
+      );
+    }
+    return PubMedQuery.tagged(
+      /\s/.test(term) ? `"${term}*"` : `${term}*`,
+      field
+    );
+  }
+
+  /**
+   * Create a publication date range ([dp]).
+   *
+   * @param from - Start date as YYYY, YYYY/MM or YYYY/MM/DD
+   * @param to - End date as YYYY, YYYY/MM or YYYY/MM/DD
+   * @returns The query
+   * @throws Error if a date is malformed
+   */
+  static dateRange(from: string, to: string): PubMedQuery {
+    for (const date of [from, to]) {
+      if (!SEARCH_DATE_PATTERN.test(date)) {
+        throw new Error(
+          `Invalid date "${date}", expected YYYY, YYYY/MM or YYYY/MM/DD`
+        );
+      }
+    }
+    return PubMedQuery.tagged(`${from}:${to}`, "dp");
+  }
+
+  /**
+   * Combine operands so that all of them must match.
+   *
+   * @param operands - Queries or plain terms
+   * @returns The query
+   * @throws Error if no operand is given
+   */
+  static and(...operands: PubMedQueryOperand[]): PubMedQuery {
+    return PubMedQuery.group("AND", operands);
+  }
+
+  /**
+   * Combine operands so that any of them must match.
+   *
+   * @param operands - Queries or plain terms
+   * @returns The query
+   * @throws Error if no operand is given
+   */
+  static or(...operands: PubMedQueryOperand[]): PubMedQuery {
+    return PubMedQuery.group("OR", operands);
+  }
+
+  /**
+   * Match the first operand but exclude results of the second.
+   *
+   * @param include - The query to match
+   * @param exclude - The query to exclude
+   * @returns The query
+   */
+  static not(
+    include: PubMedQueryOperand,
+    exclude: PubMedQueryOperand
+  ): PubMedQuery {
+    return PubMedQuery.group("NOT", [include, exclude]);
+  }
+
+  /**
+   * Combine this query with further operands that must all match.
+   */
+  and(...operands: PubMedQueryOperand[]): PubMedQuery {
+    return PubMedQuery.and(this, ...operands);
+  }
+
+  /**
+   * Combine this query with further operands of which any may match.
+   */
+  or(...operands: PubMedQueryOperand[]): PubMedQuery {
+    return PubMedQuery.or(this, ...operands);
+  }
+
+  /**
+   * Exclude results of another query from this one.
+   */
+  not(exclude: PubMedQueryOperand): PubMedQuery {
+    return PubMedQuery.not(this, exclude);
+  }
+
+  /**
+   * Serialize the query to a PubMed term string.
+   */
+  toString(): string {
+    return this.expression;
+  }
+
+  /**
+   * Join operands with a boolean operator. Nested groups are parenthesized,
+   * except AND/OR groups joined with the same operator, which are associative.
+   */
+  private static group(
+    operator: PubMedQueryOperator,
+    operands: PubMedQueryOperand[]
+  ): PubMedQuery {
+    if (operands.length === 0) {
+      throw new Error(`${operator} group needs at least one operand`);
+    }
+    const queries = operands.map((operand) =>
+      typeof operand === "string" ? PubMedQuery.term(operand) : operand
+    );
+    if (queries.length === 1) {
+      return queries[0];
+    }
+
+    const expression = queries
+      .map((query) =>
+        query.operator && (query.operator !== operator || operator === "NOT")
+          ? `(${query.expression})`
+          : query.expression
+      )
+      .join(` ${operator} `);
+    return new PubMedQuery(expression, operator);
+  }
+
+  /**
+   * Append a field tag to an escaped term.
+   */
+  private static tagged(term: string, field?: PubMedQueryField): PubMedQuery {
+    if (field === undefined) {
+      return new PubMedQuery(term);
+    }
+    if (!QUERY_FIELDS.includes(field)) {
+      throw new Error(
+        `Invalid field tag "${field}", expected one of: ${QUERY_FIELDS.join(", ")}`
+      );
+    }
+    return new PubMedQuery(`${term}[${field}]`);
+  }
+
+  /**
+   * Remove reserved characters and collapse whitespace in term text.
+   */
+  private static escape(text: string): string {
+    const term = text
+      .replace(RESERVED_CHARACTERS, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!term) {
+      throw new Error("Query term must not be empty");
+    }
+    return term;
+  }
+}
@@ -0,0 +1,91 @@
+import { Tool } from "@langchain/core/tools";
+import { PubMedAPIWrapper } from "./pubmed-api.js";
+import { PubMedAPIWrapperOptions } from "./types.js";
+
+/**
+ * Forms in which models pass a PMID: bare, with a "PMID:" prefix, or as a
+ * PubMed article URL. Other IDs such as PMCIDs or DOIs do not match.
+ */
+const PMID_INPUT_PATTERN =
+  /^\s*(?:PMID:?\s*|(?:https?:\/\/)?pubmed\.ncbi\.nlm\.nih\.gov\/)?(\d+)\/?\s*$/i;
+
+/**
+ * PubMed tool listing the articles most similar to a given article.
+ *
+ * Uses PubMed's "Similar articles" links to expand a literature search from
+ * an article that is already known to be relevant. The input is the PubMed
+ * ID (PMID) of that article; the output lists the similar articles with their
+ * relevance scores, most similar first.
+ *
+ * <details open>
+ * <summary><strong>Instantiate</strong></summary>
+ *
+ * ```typescript
+ * import { PubMedSimilarArticlesTool } from "langchain-pubmed";
+ *
+ * const tool = new PubMedSimilarArticlesTool({
+ *   topKResults: 5,
+ *   email: "your_email@example.com", // or set PUBMED_EMAIL env var
+ * });
+ * ```
+ * </details>
+ *
+ * <br />
+ *
+ * <details>
+ * <summary><strong>Invocation</strong></summary>
+ *
+ * ```typescript
+ * const result = await tool.invoke("33301246");
+ * console.log(result);
+ * // Output: Similarity Score: 48133528
+ * //         Published: 2021-07-28
+ * //         Title: Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine through 6 Months
+ * //         ...
+ * ```
+ * </details>
+ */
+export class PubMedSimilarArticlesTool extends Tool {
+  static lc_name() {
+    return "PubMedSimilarArticlesTool";
+  }
+
+  get lc_secrets(): { [key: string]: string } | undefined {
+    return {
+      apiKey: "PUBMED_API_KEY",
+    };
+  }
+
+  name = "pubmed_similar_articles";
+
+  description =
+    "Finds PubMed articles similar to a given article, ranked by relevance score. " +
+    "Useful for expanding a literature search from an article already known to be relevant. " +
+    "Input should be the PubMed ID (PMID) of that article, e.g. '33301246'.";
+
+  private apiWrapper: PubMedAPIWrapper;
+
+  constructor(params: PubMedAPIWrapperOptions = {}) {
+    super(params);
+    this.apiWrapper = new PubMedAPIWrapper(params);
+  }
+
+  /** @ignore */
+  async _call(pmid: string): Promise<string> {
+    // Models often pass "PMID: 33301246" or a PubMed URL instead of the bare ID;
+    // anything else is passed through for the wrapper to reject
+    return this.apiWrapper.runSimilar(
+      pmid.match(PMID_INPUT_PATTERN)?.[1] ?? pmid
+    );
+  }
+
+  /**
+   * Invokes the tool with a PubMed ID.
+   * This method is inherited from the Tool base class but explicitly typed here
+   * for better TypeScript inference in generated .d.ts files.
+   *
+   * @param input The PubMed ID of the article
+   * @returns Promise resolving to the formatted similar articles
+   */
+  declare invoke: (input: string) => Promise<string>;
+}
@@ -4,7 +4,9 @@ import type { ToolParams } from "@langchain/core/tools";
  * Configuration options for the PubMed API wrapper and tool.
  * Extends ToolParams to support LangChain tool configuration.
  */
-export interface PubMedAPIWrapperOptions extends ToolParams {
+export interface PubMedAPIWrapperOptions
+  extends ToolParams,
+    PubMedSearchOptions {
   /**
    * Number of the top-scored documents to return from PubMed search.
    * @default 3
@@ -29,53 +31,1204 @@ export interface PubMedAPIWrapperOptions extends ToolParams {
    */
   maxRetry?: number;
 
+  /**
+   * Maximum number of articles retrieved per EFetch request.
+   * @default 200
+   */
+  fetchBatchSize?: number;
+
   /**
    * Initial time to wait between retries in milliseconds. This will increase exponentially with each retry.
    * @default 200
    */
-  sleepTime?: number;
+  sleepTime?: number;
+
+  /**
+   * Output format for titles and abstracts that contain inline markup
+   * such as `<i>`, `<sup>` or `<sub>`.
+   * @default "plain"
+   */
+  textFormat?: PubMedTextFormat;
+
+  /**
+   * Sort results by evidence level (strongest first) in `run()` and `loadDocs()`.
+   * Articles with the same level keep their PubMed relevance order.
+   * @default false
+   */
+  sortByEvidence?: boolean;
+
+  /**
+   * Drop results below this evidence level in `run()` and `loadDocs()`.
+   * See {@link PubMedEvidenceLevel} for the hierarchy.
+   */
+  minEvidenceLevel?: PubMedEvidenceLevel;
+
+  /**
+   * How to handle retracted articles:
+   *
+   * - `include` - return them like any other article
+   * - `flag` - return them, and prefix them with a retraction warning in `run()`
+   * - `exclude` - drop them from all results
+   * @default "flag"
+   */
+  retractionPolicy?: PubMedRetractionPolicy;
+
+  /**
+   * Languages to prefer for the Document `pageContent`, as PubMed language
+   * codes in order of preference, e.g. `["ger", "eng"]`. The first language
+   * with an abstract wins; the main abstract counts as English ("eng").
+   * Without a match the main abstract is used.
+   */
+  preferredLanguages?: string[];
+
+  /**
+   * Start `run()` output with a line showing how PubMed interpreted the query,
+   * followed by any search warnings and errors.
+   * @default false
+   */
+  showQueryTranslation?: boolean;
+
+  /**
+   * When a `run()` query has no results, retry it once with the spelling
+   * correction suggested by PubMed and state the correction in the output.
+   * @default false
+   */
+  correctSpelling?: boolean;
+
+  /**
+   * Check the `[xx]` field tags of every query against the search fields
+   * listed by EInfo, and reject queries with unknown tags before searching.
+   * @default false
+   */
+  validateFieldTags?: boolean;
+
+  /**
+   * Email address to be used for the PubMed API. Required for higher rate limits.
+   * @default "your_email@example.com"
+   */
+  email?: string;
+
+  /**
+   * API key for the PubMed API. Provides higher rate limits when specified.
+   * @default ""
+   */
+  apiKey?: string;
+}
+
+/**
+ * Output format for text with inline markup:
+ *
+ * - `plain` - tags are stripped ("Ca2+")
+ * - `markdown` - italic and bold become Markdown, superscript and subscript use
+ *   the Pandoc syntax ("Ca^2+^")
+ * - `html` - the original markup is kept ("Ca<sup>2+</sup>")
+ */
+export type PubMedTextFormat = "plain" | "markdown" | "html";
+
+/**
+ * Metadata for a PubMed record: a journal article or an NCBI Bookshelf
+ * book or chapter, discriminated by `kind`.
+ */
+export type PubMedArticleMetadata =
+  | PubMedJournalArticleMetadata
+  | PubMedBookArticleMetadata;
+
+/**
+ * Entry returned for a requested PubMed ID that has no record.
+ */
+export interface PubMedNotFoundEntry {
+  kind: "not-found";
+
+  /**
+   * The requested ID.
+   */
+  uid: string;
+}
+
+/**
+ * Metadata for a journal article.
+ */
+export interface PubMedJournalArticleMetadata
+  extends PubMedArticleMetadataBase {
+  kind: "journal";
+
+  /**
+   * Journal citation details.
+   */
+  journal?: PubMedJournalCitation;
+}
+
+/**
+ * Metadata for an NCBI Bookshelf record, e.g. a GeneReviews chapter.
+ */
+export interface PubMedBookArticleMetadata extends PubMedArticleMetadataBase {
+  kind: "book";
+
+  /**
+   * Book citation details.
+   */
+  book: PubMedBookCitation;
+}
+
+/**
+ * Metadata shared by journal articles and book records.
+ */
+export interface PubMedArticleMetadataBase {
+  /**
+   * Unique identifier for the article in PubMed.
+   */
+  uid: string;
+
+  /**
+   * Title of the article. For books, the chapter title, or the book title for
+   * records of a whole book.
+   */
+  Title: string;
+
+  /**
+   * Title in the original language of a non-English article.
+   */
+  vernacularTitle?: string;
+
+  /**
+   * Languages the article is published in, as PubMed language codes, e.g. "eng" or "ger".
+   */
+  languages: string[];
+
+  /**
+   * Publication date in YYYY-MM-DD format. Month and day are omitted when unknown.
+   * Empty when the record carries no usable date.
+   */
+  Published: string;
+
+  /**
+   * Element the `Published` date was read from.
+   */
+  publishedSource?: PubMedDateSource;
+
+  /**
+   * Date of electronic publication (ArticleDate) in YYYY-MM-DD format.
+   */
+  electronicDate?: string;
+
+  /**
+   * Date of the print journal issue (JournalIssue/PubDate) in YYYY-MM-DD format.
+   */
+  printDate?: string;
+
+  /**
+   * Copyright information for the article abstract.
+   */
+  "Copyright Information": string;
+
+  /**
+   * Abstract summary of the article.
+   */
+  Summary: string;
+
+  /**
+   * Sections of the abstract in document order.
+   * Structured abstracts have one labelled section per part (BACKGROUND, METHODS, ...);
+   * unstructured abstracts have unlabelled sections.
+   */
+  abstractSections: PubMedAbstractSection[];
+
+  /**
+   * Additional abstracts, e.g. the abstract in the original language of a
+   * non-English article or a plain language summary.
+   */
+  otherAbstracts: PubMedOtherAbstract[];
+
+  /**
+   * Authors of the article in the order they appear in the citation.
+   */
+  authors: PubMedAuthor[];
+
+  /**
+   * MeSH headings indexed for the article. Empty for records not yet indexed for MEDLINE.
+   */
+  meshHeadings: PubMedMeshHeading[];
+
+  /**
+   * Keywords assigned by authors or other indexers.
+   */
+  keywords: PubMedKeyword[];
+
+  /**
+   * Chemical substances indexed for the article.
+   */
+  chemicals: PubMedChemical[];
+
+  /**
+   * Supplementary MeSH concepts (rare diseases, protocols, organisms) indexed for the article.
+   */
+  supplementaryConcepts: PubMedSupplementaryConcept[];
+
+  /**
+   * Grants and other funding support acknowledged by the article.
+   */
+  grants: PubMedGrant[];
+
+  /**
+   * Links to related records: retractions, errata, comments, updates and
+   * expressions of concern.
+   */
+  commentsCorrections: PubMedCommentCorrection[];
+
+  /**
+   * Whether the article has been retracted, either through a "RetractionIn"
+   * link or the "Retracted Publication" publication type.
+   */
+  retracted: boolean;
+
+  /**
+   * Works cited by the article, in the order of its reference list.
+   * Only available for records whose publisher deposited the reference list.
+   */
+  references: PubMedReference[];
+
+  /**
+   * Publication types of the article, e.g. "Journal Article" or "Randomized Controlled Trial".
+   */
+  publicationTypes: PubMedPublicationType[];
+
+  /**
+   * Evidence level derived from the publication types.
+   */
+  evidenceLevel: PubMedEvidenceLevel;
+
+  /**
+   * Identifiers of the article in PubMed and other databases.
+   */
+  ids: PubMedArticleIds;
+}
+
+/**
+ * Identifiers of a PubMed article.
+ */
+export interface PubMedArticleIds {
+  /**
+   * PubMed identifier.
+   */
+  pmid: string;
+
+  /**
+   * Version of the PubMed record. Versions above 1 are rare and mark revised records.
+   */
+  pmidVersion?: string;
+
+  /**
+   * Digital Object Identifier, e.g. "10.1056/NEJMoa2034577".
+   */
+  doi?: string;
+
+  /**
+   * PubMed Central identifier, e.g. "PMC7745181".
+   */
+  pmcid?: string;
+
+  /**
+   * Publisher item identifier.
+   */
+  pii?: string;
+
+  /**
+   * NIH manuscript identifier, e.g. "NIHMS1234567".
+   */
+  mid?: string;
+
+  /**
+   * Remaining identifiers keyed by their PubMed IdType, e.g. "bookaccession".
+   */
+  other: Record<string, string>;
+}
+
+/**
+ * Grant or other funding support of a PubMed article.
+ */
+export interface PubMedGrant {
+  /**
+   * Grant number, e.g. "R01 CA123456".
+   */
+  grantId?: string;
+
+  /**
+   * Institute acronym, e.g. "CA" for the National Cancer Institute.
+   */
+  acronym?: string;
+
+  /**
+   * Funding agency, e.g. "NCI NIH HHS".
+   */
+  agency?: string;
+
+  /**
+   * Country of the funding agency.
+   */
+  country?: string;
+}
+
+/**
+ * Link from a PubMed article to a related record, e.g. its retraction notice.
+ */
+export interface PubMedCommentCorrection {
+  /**
+   * Relation type, e.g. "RetractionIn", "ErratumIn", "ExpressionOfConcernIn",
+   * "CommentIn" or "UpdateIn".
+   */
+  refType: string;
+
+  /**
+   * Citation of the related record, e.g. "Lancet. 2020 Jun 13;395(10240):1820".
+   */
+  refSource?: string;
+
+  /**
+   * PubMed identifier of the related record, when it is indexed in PubMed.
+   */
+  pmid?: string;
+}
+
+/**
+ * Entry of the reference list of a PubMed article.
+ */
+export interface PubMedReference {
+  /**
+   * Citation text as deposited by the publisher.
+   */
+  citation?: string;
+
+  /**
+   * PubMed identifier of the cited work.
+   */
+  pmid?: string;
+
+  /**
+   * DOI of the cited work.
+   */
+  doi?: string;
+
+  /**
+   * PubMed Central identifier of the cited work.
+   */
+  pmcid?: string;
+}
+
+/**
+ * Handling of retracted articles, see {@link PubMedAPIWrapperOptions.retractionPolicy}.
+ */
+export type PubMedRetractionPolicy = "include" | "flag" | "exclude";
+
+/**
+ * Publication type of a PubMed article.
+ */
+export interface PubMedPublicationType {
+  /**
+   * Publication type name, e.g. "Meta-Analysis".
+   */
+  name: string;
+
+  /**
+   * Unique MeSH identifier of the publication type, e.g. "D017418".
+   */
+  ui?: string;
+}
+
+/**
+ * Source of the publication date, in the order they are tried:
+ *
+ * 1. `article-date` - electronic publication date (Article/ArticleDate)
+ * 2. `pub-date` - journal issue date (JournalIssue/PubDate)
+ * 3. `medline-date` - free-text journal issue date, e.g. "2019 Nov-Dec"
+ * 4. `contribution-date` - contribution date of a book document
+ * 5. `history-pubmed`, `history-entrez`, `history-accepted` - PubMed history dates
+ */
+export type PubMedDateSource =
+  | "article-date"
+  | "pub-date"
+  | "medline-date"
+  | "contribution-date"
+  | "history-pubmed"
+  | "history-entrez"
+  | "history-accepted";
+
+/**
+ * Evidence level of an article, from strongest to weakest:
+ *
+ * 1. `systematic-review` - meta-analyses and systematic reviews
+ * 2. `rct` - randomized controlled trials
+ * 3. `clinical-trial` - non-randomized and phased clinical trials
+ * 4. `cohort` - observational studies
+ * 5. `case-report` - case reports
+ * 6. `unclassified` - no publication type maps to a level (e.g. only "Journal Article")
+ * 7. `opinion` - editorials, comments and letters
+ *
+ * Unclassified records are mostly original research without a study design
+ * publication type, so they rank above opinion pieces: `minEvidenceLevel:
+ * "unclassified"` drops only opinion pieces, and stricter minimums drop
+ * unclassified records too.
+ */
+export type PubMedEvidenceLevel =
+  | "systematic-review"
+  | "rct"
+  | "clinical-trial"
+  | "cohort"
+  | "case-report"
+  | "unclassified"
+  | "opinion";
+
+/**
+ * Per-call options for ranking and filtering results by evidence level.
+ * Values override the defaults set on {@link PubMedAPIWrapperOptions}.
+ */
+export interface PubMedEvidenceOptions {
+  /**
+   * Sort results by evidence level, strongest first.
+   */
+  sortByEvidence?: boolean;
+
+  /**
+   * Drop results below this evidence level.
+   */
+  minEvidenceLevel?: PubMedEvidenceLevel;
+}
+
+/**
+ * Per-call options for `PubMedAPIWrapper.run()`.
+ */
+export interface PubMedRunOptions
+  extends PubMedEvidenceOptions,
+    PubMedSearchOptions {
+  /**
+   * Start the output with a line showing how PubMed interpreted the query,
+   * followed by any search warnings and errors.
+   */
+  showQueryTranslation?: boolean;
+
+  /**
+   * When the query has no results, retry it once with the spelling
+   * correction suggested by PubMed and state the correction in the output.
+   */
+  correctSpelling?: boolean;
+}
+
+/**
+ * MeSH heading: a descriptor with optional qualifiers (subheadings).
+ */
+export interface PubMedMeshHeading {
+  /**
+   * Descriptor name, e.g. "COVID-19 Vaccines".
+   */
+  descriptor: string;
+
+  /**
+   * Unique MeSH identifier of the descriptor, e.g. "D000086663".
+   */
+  descriptorUi?: string;
+
+  /**
+   * Whether the heading is a major topic of the article.
+   * True when either the descriptor or one of its qualifiers is marked as major topic.
+   */
+  majorTopic: boolean;
+
+  /**
+   * Qualifiers attached to the descriptor.
+   */
+  qualifiers: PubMedMeshQualifier[];
+}
+
+/**
+ * MeSH qualifier (subheading) attached to a descriptor.
+ */
+export interface PubMedMeshQualifier {
+  /**
+   * Qualifier name, e.g. "adverse effects".
+   */
+  name: string;
+
+  /**
+   * Unique MeSH identifier of the qualifier, e.g. "Q000009".
+   */
+  ui?: string;
+
+  /**
+   * Whether the descriptor/qualifier combination is a major topic of the article.
+   */
+  majorTopic: boolean;
+}
+
+/**
+ * Per-call options for `PubMedAPIWrapper.loadDocs()`.
+ */
+export interface PubMedLoadDocsOptions
+  extends PubMedEvidenceOptions,
+    PubMedSearchOptions {
+  /**
+   * Emit one Document per abstract section (BACKGROUND, METHODS, RESULTS, ...)
+   * instead of one Document per article. Section Documents share the article
+   * metadata and carry the section label, NLM category and position.
+   * @default false
+   */
+  splitSections?: boolean;
+}
+
+/**
+ * Keyword of a PubMed article.
+ */
+export interface PubMedKeyword {
+  /**
+   * Keyword text.
+   */
+  keyword: string;
+
+  /**
+   * Party that supplied the keyword, e.g. "NOTNLM" for author keywords or "NLM".
+   */
+  owner?: string;
+
+  /**
+   * Whether the keyword is marked as a major topic of the article.
+   */
+  majorTopic: boolean;
+}
+
+/**
+ * Chemical substance indexed for a PubMed article.
+ */
+export interface PubMedChemical {
+  /**
+   * Name of the substance, e.g. "Metformin".
+   */
+  name: string;
+
+  /**
+   * Unique MeSH identifier of the substance, e.g. "D008687".
+   */
+  ui?: string;
+
+  /**
+   * Registry number of the substance, e.g. a CAS number ("657-24-9") or UNII.
+   * Omitted when PubMed gives none (registry number "0").
+   */
+  registryNumber?: string;
+}
+
+/**
+ * Supplementary MeSH concept indexed for a PubMed article.
+ */
+export interface PubMedSupplementaryConcept {
+  /**
+   * Name of the concept.
+   */
+  name: string;
+
+  /**
+   * Unique MeSH identifier of the concept, e.g. "C000657245".
+   */
+  ui?: string;
+
+  /**
+   * Concept type: "Disease", "Protocol" or "Organism".
+   */
+  type?: string;
+}
+
+/**
+ * Options for filtering and grouping articles by MeSH heading.
+ */
+export interface PubMedMeshFilterOptions {
+  /**
+   * Only consider headings marked as major topic.
+   * @default false
+   */
+  majorTopicOnly?: boolean;
+}
+
+/**
+ * Section of an article abstract.
+ */
+export interface PubMedAbstractSection {
+  /**
+   * Label given by the publisher, e.g. "MATERIALS AND METHODS".
+   */
+  label?: string;
+
+  /**
+   * NLM category the label maps to: BACKGROUND, OBJECTIVE, METHODS, RESULTS,
+   * CONCLUSIONS or UNASSIGNED.
+   */
+  nlmCategory?: string;
+
+  /**
+   * Text of the section.
+   */
+  text: string;
+}
+
+/**
+ * Additional abstract of a PubMed article (OtherAbstract).
+ */
+export interface PubMedOtherAbstract {
+  /**
+   * Language of the abstract as a PubMed language code, e.g. "ger".
+   */
+  language?: string;
+
+  /**
+   * Source of the abstract, e.g. "Publisher" or "plain-language-summary".
+   */
+  type?: string;
+
+  /**
+   * Sections of the abstract in document order.
+   */
+  sections: PubMedAbstractSection[];
+
+  /**
+   * Full text of the abstract, formatted like the `Summary` of the article.
+   */
+  text: string;
+}
+
+/**
+ * Author of a PubMed article, either a person or a collective (group) author.
+ */
+export interface PubMedAuthor {
+  /**
+   * Family name of a personal author.
+   */
+  lastName?: string;
+
+  /**
+   * Given name(s) of a personal author.
+   */
+  foreName?: string;
+
+  /**
+   * Initials of the given name(s), e.g. "JA".
+   */
+  initials?: string;
+
+  /**
+   * Name of a group author, e.g. a consortium or study group.
+   */
+  collectiveName?: string;
+
+  /**
+   * Affiliations listed for the author.
+   */
+  affiliations: string[];
+
+  /**
+   * ORCID identifier without the URL prefix, e.g. "0000-0002-1825-0097".
+   */
+  orcid?: string;
+
+  /**
+   * Whether the author is marked as an equal contributor.
+   */
+  equalContrib: boolean;
+}
+
+/**
+ * Journal citation details of a PubMed article.
+ */
+export interface PubMedJournalCitation {
+  /**
+   * Full journal title, e.g. "The New England journal of medicine".
+   */
+  title?: string;
+
+  /**
+   * ISO abbreviation of the journal title, e.g. "N Engl J Med".
+   */
+  isoAbbreviation?: string;
+
+  /**
+   * ISSN of the print edition.
+   */
+  issnPrint?: string;
+
+  /**
+   * ISSN of the electronic edition.
+   */
+  issnElectronic?: string;
+
+  /**
+   * Volume of the journal issue.
+   */
+  volume?: string;
+
+  /**
+   * Issue number of the journal issue.
+   */
+  issue?: string;
+
+  /**
+   * Page range in MEDLINE format, e.g. "2603-2615".
+   */
+  pages?: string;
+
+  /**
+   * First page of the article.
+   */
+  startPage?: string;
+
+  /**
+   * Last page of the article.
+   */
+  endPage?: string;
+
+  /**
+   * Electronic locations of the article, e.g. a DOI or a publisher item identifier.
+   * Used in place of page numbers by online-only journals.
+   */
+  eLocationIds: PubMedELocationId[];
+}
+
+/**
+ * Citation details of an NCBI Bookshelf book or chapter.
+ */
+export interface PubMedBookCitation {
+  /**
+   * Title of the book, e.g. "GeneReviews®".
+   */
+  title: string;
+
+  /**
+   * Name of the publisher.
+   */
+  publisher?: string;
+
+  /**
+   * Place of publication, e.g. "Seattle (WA)".
+   */
+  publisherLocation?: string;
+
+  /**
+   * Editors of the book or chapter.
+   */
+  editors: PubMedAuthor[];
+
+  /**
+   * Edition statement, e.g. "2nd".
+   */
+  edition?: string;
+
+  /**
+   * Volume of a multi-volume book.
+   */
+  volume?: string;
+
+  /**
+   * Title of the collection (series) the book belongs to.
+   */
+  collectionTitle?: string;
+
+  /**
+   * Position of the record within the book, e.g. "Chapter 3".
+   */
+  locationLabel?: string;
+
+  /**
+   * Titles of the chapter sections in document order, nested sections included.
+   */
+  sectionTitles: string[];
+}
+
+/**
+ * Electronic location identifier of an article.
+ */
+export interface PubMedELocationId {
+  /**
+   * Identifier type, e.g. "doi" or "pii".
+   */
+  type: string;
+
+  /**
+   * Identifier value.
+   */
+  value: string;
+}
+
+/**
+ * Search field tags supported by {@link PubMedQuery}: title (`ti`),
+ * title/abstract (`tiab`), author (`au`), MeSH terms (`mh`), MeSH major
+ * topic (`majr`), publication type (`pt`), publication date (`dp`) and
+ * language (`la`).
+ * See https://pubmed.ncbi.nlm.nih.gov/help/#search-tags
+ */
+export type PubMedQueryField =
+  | "ti"
+  | "tiab"
+  | "au"
+  | "mh"
+  | "majr"
+  | "pt"
+  | "dp"
+  | "la";
+
+/**
+ * Date field used to restrict a search by date:
+ * publication date (`pdat`), Entrez date (`edat`) or modification date (`mdat`).
+ */
+export type PubMedDateType = "pdat" | "edat" | "mdat";
+
+/**
+ * Sort order of search results: relevance ("Best Match"), publication date
+ * (most recent first), first author or journal name.
+ */
+export type PubMedSortOrder =
+  | "relevance"
+  | "pub_date"
+  | "Author"
+  | "JournalName";
+
+/**
+ * Search sorting and date filtering options.
+ * Set on {@link PubMedAPIWrapperOptions} as defaults, or per call on
+ * `load`, `lazyLoad`, `run`, `loadDocs` and `lazyLoadDocs`.
+ */
+export interface PubMedSearchOptions {
+  /**
+   * Sort order of the results.
+   * @default "relevance"
+   */
+  sort?: PubMedSortOrder;
+
+  /**
+   * Date field the date filters apply to.
+   * @default "pdat"
+   */
+  datetype?: PubMedDateType;
+
+  /**
+   * Start of the date range, as YYYY, YYYY/MM or YYYY/MM/DD. Requires `maxdate`.
+   */
+  mindate?: string;
+
+  /**
+   * End of the date range, as YYYY, YYYY/MM or YYYY/MM/DD. Requires `mindate`.
+   */
+  maxdate?: string;
+
+  /**
+   * Only return results dated within the last `reldate` days.
+   */
+  reldate?: number;
+}
+
+/**
+ * Optional ESearch parameters, see {@link PubMedURLBuilder.buildSearchUrl}.
+ */
+export interface PubMedSearchUrlOptions extends PubMedSearchOptions {
+  /**
+   * Index of the first result to return.
+   */
+  retstart?: number;
+
+  /**
+   * Web environment of a previous search to reuse.
+   */
+  webenv?: string;
+
+  /**
+   * Query key of a previous search; the new search is intersected with it.
+   */
+  queryKey?: string;
+}
+
+/**
+ * How much of each result to retrieve:
+ *
+ * - `full` - the complete record from EFetch ({@link PubMedArticleMetadata})
+ * - `summary` - the lighter document summary from ESummary ({@link PubMedDocSummary})
+ */
+export type PubMedResultMode = "full" | "summary";
+
+/**
+ * Per-call options for `PubMedAPIWrapper.load()` and `lazyLoad()`.
+ */
+export interface PubMedLoadOptions extends PubMedSearchOptions {
+  /**
+   * Retrieve full records or document summaries.
+   * @default "full"
+   */
+  mode?: PubMedResultMode;
+}
+
+/**
+ * Lightweight document summary of a PubMed record, retrieved with ESummary.
+ */
+export interface PubMedDocSummary {
+  /**
+   * PubMed ID of the record.
+   */
+  uid: string;
+
+  title: string;
+
+  /**
+   * Author names as listed by PubMed, e.g. "Smith J".
+   */
+  authors: string[];
+
+  /**
+   * Abbreviated journal title or book source, e.g. "N Engl J Med".
+   */
+  source: string;
+
+  /**
+   * Full journal title, e.g. "The New England journal of medicine".
+   */
+  fullJournalName?: string;
+
+  /**
+   * Publication date as given by PubMed, e.g. "2021 Mar 4".
+   */
+  pubdate: string;
+
+  /**
+   * Electronic publication date, e.g. "2021 Feb 24".
+   */
+  epubdate?: string;
+
+  volume?: string;
+  issue?: string;
+  pages?: string;
+
+  /**
+   * Language codes of the record, e.g. ["eng"].
+   */
+  languages: string[];
+
+  /**
+   * Publication type names, e.g. ["Journal Article", "Review"].
+   */
+  publicationTypes: string[];
+
+  doi?: string;
+
+  /**
+   * PubMed Central ID, e.g. "PMC7123456".
+   */
+  pmcid?: string;
+
+  /**
+   * Whether the record has an abstract.
+   */
+  hasAbstract: boolean;
+
+  /**
+   * Whether the record is a retracted publication.
+   */
+  retracted: boolean;
+}
+
+/**
+ * Description of an Entrez database, retrieved with EInfo.
+ */
+export interface PubMedDatabaseInfo {
+  /**
+   * Database name, e.g. "pubmed".
+   */
+  name: string;
+
+  /**
+   * Display name, e.g. "PubMed".
+   */
+  menuName?: string;
+
+  description: string;
+
+  /**
+   * Build of the database, e.g. "Build-2024.06.11.05.38".
+   */
+  build?: string;
+
+  /**
+   * Number of records in the database.
+   */
+  count: number;
+
+  /**
+   * Time of the last update, e.g. "2024/06/11 05:38".
+   */
+  lastUpdate: string;
+
+  /**
+   * Search fields that can be used as `[xx]` field tags.
+   */
+  fields: PubMedSearchField[];
 
   /**
-   * Email address to be used for the PubMed API. Required for higher rate limits.
-   * @default "your_email@example.com"
+   * Links available to other databases, e.g. "pubmed_pubmed".
    */
-  email?: string;
+  links: PubMedLinkInfo[];
+}
+
+/**
+ * Search field of an Entrez database.
+ */
+export interface PubMedSearchField {
+  /**
+   * Short field name, e.g. "TIAB".
+   */
+  name: string;
 
   /**
-   * API key for the PubMed API. Provides higher rate limits when specified.
-   * @default ""
+   * Full field name, e.g. "Title/Abstract".
    */
-  apiKey?: string;
+  fullName: string;
+
+  description: string;
+
+  /**
+   * Whether the field holds dates, e.g. "PDAT".
+   */
+  isDate: boolean;
+
+  /**
+   * Whether the field holds numbers, e.g. "UID".
+   */
+  isNumerical: boolean;
+
+  /**
+   * Whether the field is hidden from the PubMed search interface.
+   */
+  isHidden: boolean;
 }
 
 /**
- * Metadata for a PubMed article.
+ * Link from an Entrez database to another database.
  */
-export interface PubMedArticleMetadata {
+export interface PubMedLinkInfo {
   /**
-   * Unique identifier for the article in PubMed.
+   * Link name, e.g. "pubmed_pubmed_citedin".
    */
-  uid: string;
+  name: string;
 
   /**
-   * Title of the article.
+   * Display name, e.g. "Cited in".
    */
-  Title: string;
+  menu: string;
+
+  description: string;
 
   /**
-   * Publication date in YYYY-MM-DD format.
+   * Target database, e.g. "pubmed".
    */
-  Published: string;
+  dbTo: string;
+}
+
+/**
+ * Options for {@link PubMedAPIWrapper.findSimilar}.
+ */
+export interface PubMedSimilarOptions {
+  /**
+   * Maximum number of similar articles to return.
+   * Defaults to the wrapper's `topKResults`.
+   */
+  limit?: number;
 
   /**
-   * Copyright information for the article abstract.
+   * Minimum relevance score of a similar article.
    */
-  "Copyright Information": string;
+  minScore?: number;
+}
 
+/**
+ * Article related to another article through PubMed's "Similar articles".
+ */
+export interface PubMedSimilarArticle {
   /**
-   * Abstract summary of the article.
+   * Relevance score computed by PubMed; higher scores are more similar.
    */
-  Summary: string;
+  score: number;
+
+  article: PubMedArticleMetadata;
+}
+
+/**
+ * Options for {@link PubMedAPIWrapper.getCitedBy} and {@link PubMedAPIWrapper.getCitedReferences}.
+ */
+export interface PubMedCitationOptions {
+  /**
+   * Maximum number of articles to return. Defaults to all linked articles.
+   */
+  limit?: number;
+}
+
+/**
+ * Direction in which a citation crawl follows links: to the articles citing
+ * a node (`citedBy`), to the articles a node cites (`references`), or both.
+ */
+export type PubMedCitationDirection = "citedBy" | "references" | "both";
+
+/**
+ * Options for {@link PubMedAPIWrapper.crawlCitations}.
+ */
+export interface PubMedCrawlOptions {
+  /**
+   * Number of link hops to follow from the seeds.
+   * @default 1
+   */
+  depth?: number;
+
+  /**
+   * Maximum number of distinct articles in the graph, seeds included.
+   * Links to further articles are skipped once the limit is reached.
+   * @default 100
+   */
+  maxNodes?: number;
+
+  /**
+   * Links to follow.
+   * @default "both"
+   */
+  direction?: PubMedCitationDirection;
+}
+
+/**
+ * Citation between two PubMed articles: `citing` cites `cited`.
+ */
+export interface PubMedCitationEdge {
+  /**
+   * PMID of the citing article.
+   */
+  citing: string;
+
+  /**
+   * PMID of the cited article.
+   */
+  cited: string;
+
+  /**
+   * Hop at which the citation was found, 1 for links of the seeds.
+   */
+  depth: number;
+}
+
+/**
+ * Options for {@link PubMedAPIWrapper.iterateAll}.
+ */
+export interface PubMedIterateOptions extends PubMedSearchOptions {
+  /**
+   * Number of results requested per ESearch page.
+   * Defaults to the wrapper's `fetchBatchSize`.
+   */
+  pageSize?: number;
+
+  /**
+   * Maximum number of articles to yield. Defaults to the whole result set.
+   */
+  limit?: number;
+
+  /**
+   * Called once with the total number of results of the query, before the first article is yielded.
+   */
+  onCount?: (count: number) => void;
 }
 
 /**
@@ -84,26 +1237,360 @@ export interface PubMedArticleMetadata {
 export interface PubMedSearchResult {
   esearchresult: {
     webenv: string;
+    querykey?: string;
     idlist: string[];
     count?: string;
     retmax?: string;
+    querytranslation?: string;
+    translationset?: PubMedTranslation[];
+    translationstack?: (PubMedTranslationStackTerm | string)[];
+    warninglist?: PubMedSearchWarningList;
+    errorlist?: PubMedSearchErrorList;
+    ERROR?: string;
+  };
+}
+
+/**
+ * Mapping of a query term to the terms PubMed searched for it,
+ * e.g. "cancer" to "cancer"[All Fields] OR "neoplasms"[MeSH Terms].
+ */
+export interface PubMedTranslation {
+  from: string;
+  to: string;
+}
+
+/**
+ * Term of the ESearch translation stack. The stack holds the translated query
+ * in postfix notation, with operators such as "AND" and "GROUP" as strings.
+ */
+export interface PubMedTranslationStackTerm {
+  term: string;
+  field: string;
+  count: string;
+  explode: string;
+}
+
+/**
+ * Warnings reported by ESearch.
+ */
+export interface PubMedSearchWarningList {
+  phrasesignored?: string[];
+  quotedphrasesnotfound?: string[];
+  outputmessages?: string[];
+}
+
+/**
+ * Errors reported by ESearch.
+ */
+export interface PubMedSearchErrorList {
+  phrasesnotfound?: string[];
+  fieldsnotfound?: string[];
+}
+
+/**
+ * Result of a search, with PubMed's interpretation of the query and diagnostics.
+ */
+export interface PubMedSearchOutcome {
+  /**
+   * Total number of results of the query.
+   */
+  count: number;
+
+  /**
+   * PMIDs of the first `topKResults` results.
+   */
+  ids: string[];
+
+  /**
+   * Web environment of the result set on the History server.
+   */
+  webenv: string;
+
+  /**
+   * Query key of the result set on the History server.
+   */
+  queryKey?: string;
+
+  /**
+   * The query as PubMed executed it, after automatic term mapping,
+   * e.g. "asthma"[MeSH Terms] OR "asthma"[All Fields].
+   */
+  translation?: string;
+
+  /**
+   * How individual query terms were mapped.
+   */
+  translationSet: PubMedTranslation[];
+
+  /**
+   * Warnings such as ignored phrases or quoted phrases that were not found.
+   */
+  warnings: string[];
+
+  /**
+   * Errors such as phrases or field tags that were not found.
+   */
+  errors: string[];
+}
+
+/**
+ * Response structure from the eInfo API (JSON, version 2.0).
+ */
+export interface PubMedInfoResult {
+  einforesult?: {
+    dbinfo?: PubMedDbInfoData | PubMedDbInfoData[];
+    ERROR?: string;
   };
+  error?: string;
+}
+
+/**
+ * Database description structure from the eInfo API.
+ */
+export interface PubMedDbInfoData {
+  dbname: string;
+  menuname?: string;
+  description?: string;
+  dbbuild?: string;
+  count?: string;
+  lastupdate?: string;
+  fieldlist?: {
+    name: string;
+    fullname?: string;
+    description?: string;
+    isdate?: string;
+    isnumerical?: string;
+    ishidden?: string;
+  }[];
+  linklist?: {
+    name: string;
+    menu?: string;
+    description?: string;
+    dbto?: string;
+  }[];
+}
+
+/**
+ * Response structure from PubMed eLink API (JSON).
+ */
+export interface PubMedLinkResult {
+  linksets?: PubMedLinkSet[];
+  ERROR?: string;
+}
+
+/**
+ * Links of the requested IDs to one database, grouped by link name.
+ */
+export interface PubMedLinkSet {
+  dbfrom: string;
+  ids?: string[];
+  linksetdbs?: PubMedLinkSetDb[];
+  ERROR?: string;
+}
+
+/**
+ * Linked IDs of one link name. With `cmd=neighbor_score`, each link carries
+ * its relevance score; otherwise links are plain IDs.
+ */
+export interface PubMedLinkSetDb {
+  dbto: string;
+  linkname: string;
+  links?: (string | { id: string; score?: string })[];
+}
+
+/**
+ * Response structure from PubMed eSummary API (JSON, version 2.0).
+ * Document summaries are keyed by UID next to the list of `uids`.
+ */
+export interface PubMedSummaryResult {
+  result?: { uids?: string[] } & Record<
+    string,
+    PubMedDocSummaryData | string[] | undefined
+  >;
+  error?: string;
+}
+
+/**
+ * Document summary structure from PubMed eSummary API.
+ */
+export interface PubMedDocSummaryData {
+  uid: string;
+  title?: string;
+  authors?: { name: string; authtype?: string }[];
+  source?: string;
+  fulljournalname?: string;
+  pubdate?: string;
+  epubdate?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  lang?: string[];
+  pubtype?: string[];
+  articleids?: { idtype: string; value: string }[];
+  attributes?: string[];
+  error?: string;
 }
 
 /**
  * Parsed article structure from PubMed XML response.
  */
 export interface PubMedArticle {
-  MedlineCitation?: {
-    Article: PubMedArticleData;
+  MedlineCitation?: PubMedMedlineCitation;
+  PubmedData?: PubMedDataSection;
+}
+
+/**
+ * PubMed processing data (identifiers, history) of an article or book.
+ */
+export interface PubMedDataSection {
+  History?: {
+    PubMedPubDate?: PubMedDateData | PubMedDateData[];
+  };
+  ArticleIdList?: {
+    ArticleId?: XMLTextNode | XMLTextNode[];
+  };
+  ReferenceList?: PubMedReferenceList | PubMedReferenceList[];
+}
+
+/**
+ * Reference list structure from PubMed XML response.
+ * Lists may be nested, e.g. one list per supplementary section.
+ */
+export interface PubMedReferenceList {
+  Title?: string;
+  Reference?: PubMedReferenceData | PubMedReferenceData[];
+  ReferenceList?: PubMedReferenceList | PubMedReferenceList[];
+}
+
+/**
+ * Reference structure from PubMed XML response.
+ */
+export interface PubMedReferenceData {
+  Citation?: string;
+  ArticleIdList?: {
+    ArticleId?: XMLTextNode | XMLTextNode[];
+  };
+}
+
+/**
+ * Date structure from PubMed XML response.
+ * Used by ArticleDate, PubDate, PubMedPubDate and ContributionDate.
+ */
+export interface PubMedDateData {
+  "@DateType"?: string;
+  "@PubStatus"?: string;
+  Year?: string;
+  Month?: string;
+  Day?: string;
+  Season?: string;
+  MedlineDate?: string;
+}
+
+/**
+ * MEDLINE citation structure from PubMed XML response.
+ */
+export interface PubMedMedlineCitation {
+  PMID?: XMLTextNode | string;
+  Article: PubMedArticleData;
+  MeshHeadingList?: {
+    MeshHeading?: PubMedMeshHeadingData | PubMedMeshHeadingData[];
   };
+  KeywordList?: PubMedKeywordList | PubMedKeywordList[];
+  ChemicalList?: {
+    Chemical?: PubMedChemicalData | PubMedChemicalData[];
+  };
+  SupplMeshList?: {
+    SupplMeshName?: XMLTextNode | string | (XMLTextNode | string)[];
+  };
+  OtherAbstract?: PubMedAbstractData | PubMedAbstractData[];
+  CommentsCorrectionsList?: {
+    CommentsCorrections?:
+      | PubMedCommentsCorrectionsData
+      | PubMedCommentsCorrectionsData[];
+  };
+}
+
+/**
+ * Comments/corrections structure from PubMed XML response.
+ */
+export interface PubMedCommentsCorrectionsData {
+  "@RefType"?: string;
+  RefSource?: string;
+  PMID?: XMLTextNode | string;
+}
+
+/**
+ * Keyword list structure from PubMed XML response.
+ */
+export interface PubMedKeywordList {
+  "@Owner"?: string;
+  Keyword?: XMLTextNode | string | (XMLTextNode | string)[];
+}
+
+/**
+ * Chemical structure from PubMed XML response.
+ */
+export interface PubMedChemicalData {
+  RegistryNumber?: string;
+  NameOfSubstance?: XMLTextNode | string;
+}
+
+/**
+ * MeSH heading structure from PubMed XML response.
+ */
+export interface PubMedMeshHeadingData {
+  DescriptorName?: XMLTextNode | string;
+  QualifierName?: XMLTextNode | string | (XMLTextNode | string)[];
 }
 
 /**
  * Book document structure from PubMed XML response.
  */
 export interface PubMedBookArticle {
-  BookDocument: PubMedArticleData;
+  BookDocument: PubMedBookDocument;
+  PubmedBookData?: PubMedDataSection;
+}
+
+/**
+ * Book document structure from PubMed XML response.
+ */
+export interface PubMedBookDocument extends PubMedArticleData {
+  PMID?: XMLTextNode | string;
+  ArticleIdList?: {
+    ArticleId?: XMLTextNode | XMLTextNode[];
+  };
+  ContributionDate?: PubMedDateData;
+  Book?: PubMedBookData;
+  LocationLabel?: XMLTextNode | string | (XMLTextNode | string)[];
+  PublicationType?: XMLTextNode | string | (XMLTextNode | string)[];
+  Sections?: {
+    Section?: PubMedBookSectionData | PubMedBookSectionData[];
+  };
+}
+
+/**
+ * Book structure (the `Book` element of a book document) from PubMed XML response.
+ */
+export interface PubMedBookData {
+  Publisher?: {
+    PublisherName?: string;
+    PublisherLocation?: string;
+  };
+  BookTitle?: string | Record<string, unknown>;
+  AuthorList?: PubMedAuthorList | PubMedAuthorList[];
+  Edition?: string;
+  Volume?: string;
+  CollectionTitle?: XMLTextNode | string;
+  PubDate?: PubMedDateData;
+}
+
+/**
+ * Book section structure from PubMed XML response.
+ */
+export interface PubMedBookSectionData {
+  SectionTitle?: XMLTextNode | string;
+  LocationLabel?: XMLTextNode | string;
+  Section?: PubMedBookSectionData | PubMedBookSectionData[];
 }
 
 /**
@@ -111,15 +1598,97 @@ export interface PubMedBookArticle {
  */
 export interface PubMedArticleData {
   ArticleTitle?: string | Record<string, unknown>;
-  ArticleDate?: {
-    Year?: string;
-    Month?: string;
-    Day?: string;
+  AuthorList?: PubMedAuthorList | PubMedAuthorList[];
+  Journal?: PubMedJournalData;
+  Pagination?: {
+    StartPage?: string;
+    EndPage?: string;
+    MedlinePgn?: string;
+  };
+  ELocationID?: XMLTextNode | XMLTextNode[];
+  GrantList?: {
+    Grant?: PubMedGrantData | PubMedGrantData[];
   };
-  Abstract?: {
-    AbstractText?: AbstractText | string | Record<string, unknown>;
-    CopyrightInformation?: string;
+  PublicationTypeList?: {
+    PublicationType?: XMLTextNode | string | (XMLTextNode | string)[];
+  };
+  ArticleDate?: PubMedDateData | PubMedDateData[];
+  Abstract?: PubMedAbstractData;
+  Language?: string | string[];
+  VernacularTitle?: string | Record<string, unknown>;
+}
+
+/**
+ * Abstract structure from PubMed XML response. Used by Abstract and OtherAbstract.
+ */
+export interface PubMedAbstractData {
+  "@Language"?: string;
+  "@Type"?: string;
+  AbstractText?: AbstractText | string | Record<string, unknown>;
+  CopyrightInformation?: string;
+}
+
+/**
+ * Journal structure from PubMed XML response.
+ */
+export interface PubMedJournalData {
+  ISSN?: XMLTextNode | XMLTextNode[];
+  JournalIssue?: {
+    Volume?: string;
+    Issue?: string;
+    PubDate?: PubMedDateData;
   };
+  Title?: string;
+  ISOAbbreviation?: string;
+}
+
+/**
+ * Grant structure from PubMed XML response.
+ */
+export interface PubMedGrantData {
+  GrantID?: string;
+  Acronym?: string;
+  Agency?: string;
+  Country?: string;
+}
+
+/**
+ * Author list structure from PubMed XML response.
+ * Book documents may carry separate lists for authors and editors.
+ */
+export interface PubMedAuthorList {
+  "@Type"?: string;
+  Author?: PubMedAuthorData | PubMedAuthorData[];
+}
+
+/**
+ * Author structure from PubMed XML response.
+ */
+export interface PubMedAuthorData {
+  "@ValidYN"?: string;
+  "@EqualContrib"?: string;
+  LastName?: string;
+  ForeName?: string;
+  Initials?: string;
+  CollectiveName?: string | Record<string, unknown>;
+  AffiliationInfo?: PubMedAffiliationInfo | PubMedAffiliationInfo[];
+  Identifier?: XMLTextNode | XMLTextNode[];
+}
+
+/**
+ * Affiliation structure from PubMed XML response.
+ */
+export interface PubMedAffiliationInfo {
+  Affiliation?: string | Record<string, unknown>;
+  Identifier?: XMLTextNode | XMLTextNode[];
+}
+
+/**
+ * Text element that carries attributes, e.g. `<Identifier Source="ORCID">`.
+ */
+export interface XMLTextNode {
+  "#text"?: string;
+  [key: string]: unknown;
 }
 
 /**
@@ -127,10 +1696,23 @@ export interface PubMedArticleData {
  */
 export interface AbstractText {
   "@Label"?: string;
+  "@NlmCategory"?: string;
   "#text"?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Response structure from PubMed eSpell API.
+ */
+export interface PubMedSpellResponse {
+  eSpellResult?: {
+    Database?: string;
+    Query?: string;
+    CorrectedQuery?: string;
+    ERROR?: string;
+  };
+}
+
 /**
  * Root structure of PubMed XML response.
  */
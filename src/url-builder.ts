@@ -1,7 +1,35 @@
+import {
+  PubMedDateType,
+  PubMedSearchUrlOptions,
+  PubMedSortOrder,
+} from "./types.js";
+
+/**
+ * Sort orders accepted by ESearch for PubMed.
+ */
+const SORT_ORDERS: readonly PubMedSortOrder[] = [
+  "relevance",
+  "pub_date",
+  "Author",
+  "JournalName",
+];
+
+/**
+ * Date types accepted by ESearch for PubMed.
+ */
+const DATE_TYPES: readonly PubMedDateType[] = ["pdat", "edat", "mdat"];
+
+/**
+ * Dates accepted by ESearch: YYYY, YYYY/MM or YYYY/MM/DD.
+ */
+export const SEARCH_DATE_PATTERN =
+  /^\d{4}(\/(0?[1-9]|1[0-2])(\/(0?[1-9]|[12]\d|3[01]))?)?$/;
+
 /**
  * Builder for constructing PubMed API URLs.
  *
- * Handles URL construction for both ESearch and EFetch endpoints
+ * Handles URL construction for the ESearch, EFetch, ESummary, ELink, ESpell
+ * and EInfo endpoints
  * with proper parameter encoding and API key/email inclusion.
  */
 export class PubMedURLBuilder {
@@ -11,6 +39,18 @@ export class PubMedURLBuilder {
   private readonly baseUrlEfetch =
     "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?";
 
+  private readonly baseUrlEsummary =
+    "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?";
+
+  private readonly baseUrlElink =
+    "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi?";
+
+  private readonly baseUrlEspell =
+    "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/espell.fcgi?";
+
+  private readonly baseUrlEinfo =
+    "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/einfo.fcgi?";
+
   constructor(
     private readonly email: string,
     private readonly apiKey: string
@@ -21,15 +61,46 @@ export class PubMedURLBuilder {
    *
    * @param query - The search query
    * @param maxResults - Maximum number of results to return
+   * @param options - Optional paging, History server, sorting and date filter parameters
    * @returns The complete URL
+   * @throws Error if a sort order, date type or date is invalid
    */
-  buildSearchUrl(query: string, maxResults: number): string {
+  buildSearchUrl(
+    query: string,
+    maxResults: number,
+    options: PubMedSearchUrlOptions = {}
+  ): string {
     let url =
       this.baseUrlEsearch +
       "db=pubmed&term=" +
       encodeURIComponent(query) +
       `&retmode=json&retmax=${maxResults}&usehistory=y`;
 
+    this.validateSearchOptions(options);
+
+    if (options.retstart) {
+      url += `&retstart=${options.retstart}`;
+    }
+    if (options.webenv) {
+      url += `&WebEnv=${encodeURIComponent(options.webenv)}`;
+      if (options.queryKey) {
+        url += `&query_key=${encodeURIComponent(options.queryKey)}`;
+      }
+    }
+    if (options.sort) {
+      url += `&sort=${encodeURIComponent(options.sort)}`;
+    }
+    if (options.mindate || options.reldate !== undefined) {
+      url += `&datetype=${options.datetype ?? "pdat"}`;
+    }
+    if (options.mindate && options.maxdate) {
+      url += `&mindate=${encodeURIComponent(options.mindate)}`;
+      url += `&maxdate=${encodeURIComponent(options.maxdate)}`;
+    }
+    if (options.reldate !== undefined) {
+      url += `&reldate=${options.reldate}`;
+    }
+
     url += `&email=${encodeURIComponent(this.email)}`;
 
     if (this.apiKey) {
@@ -62,4 +133,216 @@ export class PubMedURLBuilder {
 
     return url;
   }
+
+  /**
+   * Build a URL for the EFetch endpoint retrieving several articles by ID.
+   *
+   * @param uids - The article UIDs
+   * @returns The complete URL
+   */
+  buildFetchByIdsUrl(uids: string[]): string {
+    let url =
+      this.baseUrlEfetch +
+      "db=pubmed&retmode=xml&id=" +
+      uids.map((uid) => encodeURIComponent(uid)).join(",");
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the EFetch endpoint retrieving a slice of search results
+   * stored on the History server.
+   *
+   * @param webenv - The web environment string from search
+   * @param queryKey - The query key of the search
+   * @param retstart - Index of the first result to retrieve
+   * @param retmax - Number of results to retrieve
+   * @returns The complete URL
+   */
+  buildHistoryFetchUrl(
+    webenv: string,
+    queryKey: string,
+    retstart: number,
+    retmax: number
+  ): string {
+    let url =
+      this.baseUrlEfetch +
+      "db=pubmed&retmode=xml&query_key=" +
+      encodeURIComponent(queryKey) +
+      "&WebEnv=" +
+      encodeURIComponent(webenv) +
+      `&retstart=${retstart}&retmax=${retmax}`;
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the ESummary endpoint retrieving document summaries by ID.
+   *
+   * @param uids - The article UIDs
+   * @returns The complete URL
+   */
+  buildSummaryByIdsUrl(uids: string[]): string {
+    let url =
+      this.baseUrlEsummary +
+      "db=pubmed&retmode=json&version=2.0&id=" +
+      uids.map((uid) => encodeURIComponent(uid)).join(",");
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the ESummary endpoint retrieving document summaries of a
+   * slice of search results stored on the History server.
+   *
+   * @param webenv - The web environment string from search
+   * @param queryKey - The query key of the search
+   * @param retstart - Index of the first result to retrieve
+   * @param retmax - Number of results to retrieve
+   * @returns The complete URL
+   */
+  buildHistorySummaryUrl(
+    webenv: string,
+    queryKey: string,
+    retstart: number,
+    retmax: number
+  ): string {
+    let url =
+      this.baseUrlEsummary +
+      "db=pubmed&retmode=json&version=2.0&query_key=" +
+      encodeURIComponent(queryKey) +
+      "&WebEnv=" +
+      encodeURIComponent(webenv) +
+      `&retstart=${retstart}&retmax=${retmax}`;
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the ELink endpoint listing PubMed records linked to articles.
+   * The `id` parameter is repeated per UID, so that ELink returns one link set
+   * per article instead of merging their links.
+   *
+   * @param uids - The article UIDs
+   * @param linkName - The link name, e.g. "pubmed_pubmed" for similar articles
+   * @param command - The ELink command, e.g. "neighbor_score" to include relevance scores
+   * @returns The complete URL
+   */
+  buildLinkUrl(uids: string[], linkName: string, command = "neighbor"): string {
+    let url =
+      this.baseUrlElink +
+      "dbfrom=pubmed&db=pubmed&retmode=json" +
+      uids.map((uid) => `&id=${encodeURIComponent(uid)}`).join("") +
+      "&linkname=" +
+      encodeURIComponent(linkName) +
+      "&cmd=" +
+      encodeURIComponent(command);
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the ESpell endpoint suggesting spelling corrections for a query.
+   *
+   * @param query - The search query
+   * @returns The complete URL
+   */
+  buildSpellUrl(query: string): string {
+    let url =
+      this.baseUrlEspell + "db=pubmed&term=" + encodeURIComponent(query);
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Build a URL for the EInfo endpoint describing a database.
+   *
+   * @param database - The Entrez database, e.g. "pubmed"
+   * @returns The complete URL
+   */
+  buildInfoUrl(database = "pubmed"): string {
+    let url =
+      this.baseUrlEinfo +
+      "db=" +
+      encodeURIComponent(database) +
+      "&retmode=json&version=2.0";
+
+    url += `&email=${encodeURIComponent(this.email)}`;
+
+    if (this.apiKey) {
+      url += `&api_key=${this.apiKey}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Validate sorting and date filter parameters before they are sent to ESearch.
+   */
+  private validateSearchOptions(options: PubMedSearchUrlOptions): void {
+    if (options.sort && !SORT_ORDERS.includes(options.sort)) {
+      throw new Error(
+        `Invalid sort order "${options.sort}", expected one of: ${SORT_ORDERS.join(", ")}`
+      );
+    }
+    if (options.datetype && !DATE_TYPES.includes(options.datetype)) {
+      throw new Error(
+        `Invalid date type "${options.datetype}", expected one of: ${DATE_TYPES.join(", ")}`
+      );
+    }
+    if (Boolean(options.mindate) !== Boolean(options.maxdate)) {
+      throw new Error("mindate and maxdate must be given together");
+    }
+    for (const date of [options.mindate, options.maxdate]) {
+      if (date && !SEARCH_DATE_PATTERN.test(date)) {
+        throw new Error(
+          `Invalid date "${date}", expected YYYY, YYYY/MM or YYYY/MM/DD`
+        );
+      }
+    }
+    if (
+      options.reldate !== undefined &&
+      (!Number.isInteger(options.reldate) || options.reldate <= 0)
+    ) {
+      throw new Error(
+        `Invalid reldate ${options.reldate}, expected a positive number of days`
+      );
+    }
+  }
 }
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for PubMedEvidenceClassifier
+ * Tests evidence level derivation from publication types (no API calls)
+ */
+
+import { PubMedEvidenceClassifier } from "../src/evidence-classifier.js";
+
+describe("PubMedEvidenceClassifier", () => {
+  let classifier: PubMedEvidenceClassifier;
+
+  beforeEach(() => {
+    classifier = new PubMedEvidenceClassifier();
+  });
+
+  describe("classify", () => {
+    it("should classify meta-analyses and systematic reviews", () => {
+      expect(classifier.classify([{ name: "Meta-Analysis" }])).toBe(
+        "systematic-review"
+      );
+      expect(classifier.classify([{ name: "Systematic Review" }])).toBe(
+        "systematic-review"
+      );
+    });
+
+    it("should classify randomized controlled trials", () => {
+      expect(
+        classifier.classify([
+          { name: "Journal Article", ui: "D016428" },
+          { name: "Randomized Controlled Trial", ui: "D016449" },
+        ])
+      ).toBe("rct");
+    });
+
+    it("should classify non-randomized clinical trials", () => {
+      expect(classifier.classify([{ name: "Clinical Trial, Phase II" }])).toBe(
+        "clinical-trial"
+      );
+    });
+
+    it("should classify observational studies as cohort", () => {
+      expect(classifier.classify([{ name: "Observational Study" }])).toBe(
+        "cohort"
+      );
+    });
+
+    it("should classify case reports and opinion pieces", () => {
+      expect(classifier.classify([{ name: "Case Reports" }])).toBe(
+        "case-report"
+      );
+      expect(classifier.classify([{ name: "Editorial" }])).toBe("opinion");
+      expect(classifier.classify([{ name: "Letter" }])).toBe("opinion");
+    });
+
+    it("should not lift comparative studies to cohort level", () => {
+      expect(classifier.classify([{ name: "Comparative Study" }])).toBe(
+        "unclassified"
+      );
+    });
+
+    it("should pick the strongest level when several types apply", () => {
+      expect(
+        classifier.classify([
+          { name: "Comparative Study" },
+          { name: "Randomized Controlled Trial" },
+          { name: "Comment" },
+        ])
+      ).toBe("rct");
+    });
+
+    it("should match publication type names case-insensitively", () => {
+      expect(classifier.classify([{ name: "META-ANALYSIS" }])).toBe(
+        "systematic-review"
+      );
+    });
+
+    it("should return unclassified for unknown or missing types", () => {
+      expect(classifier.classify([{ name: "Journal Article" }])).toBe(
+        "unclassified"
+      );
+      expect(classifier.classify([])).toBe("unclassified");
+    });
+  });
+
+  describe("rank", () => {
+    it("should order levels from strongest to weakest", () => {
+      expect(classifier.rank("systematic-review")).toBeLessThan(
+        classifier.rank("rct")
+      );
+      expect(classifier.rank("rct")).toBeLessThan(
+        classifier.rank("clinical-trial")
+      );
+      expect(classifier.rank("clinical-trial")).toBeLessThan(
+        classifier.rank("cohort")
+      );
+      expect(classifier.rank("cohort")).toBeLessThan(
+        classifier.rank("case-report")
+      );
+      expect(classifier.rank("case-report")).toBeLessThan(
+        classifier.rank("unclassified")
+      );
+      expect(classifier.rank("unclassified")).toBeLessThan(
+        classifier.rank("opinion")
+      );
+    });
+  });
+
+  describe("meets", () => {
+    it("should accept levels at or above the minimum", () => {
+      expect(classifier.meets("rct", "rct")).toBe(true);
+      expect(classifier.meets("systematic-review", "cohort")).toBe(true);
+      expect(classifier.meets("unclassified", "opinion")).toBe(true);
+    });
+
+    it("should reject levels below the minimum", () => {
+      expect(classifier.meets("case-report", "cohort")).toBe(false);
+      expect(classifier.meets("unclassified", "case-report")).toBe(false);
+      expect(classifier.meets("opinion", "unclassified")).toBe(false);
+    });
+  });
+});
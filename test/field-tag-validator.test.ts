@@ -0,0 +1,99 @@
+/**
+ * Unit tests for PubMedFieldTagValidator
+ * Tests field tag checks of PubMed term strings (no API calls)
+ */
+
+import { PubMedFieldTagValidator } from "../src/field-tag-validator.js";
+import { PubMedDatabaseInfo } from "../src/types.js";
+
+describe("PubMedFieldTagValidator", () => {
+  const info: PubMedDatabaseInfo = {
+    name: "pubmed",
+    description: "PubMed bibliographic record",
+    count: 37512347,
+    lastUpdate: "2024/06/11 05:38",
+    fields: [
+      {
+        name: "TIAB",
+        fullName: "Title/Abstract",
+        description: "Free text associated with Abstract/Title",
+        isDate: false,
+        isNumerical: false,
+        isHidden: false,
+      },
+      {
+        name: "MESH",
+        fullName: "MeSH Terms",
+        description: "Medical Subject Headings assigned to publication",
+        isDate: false,
+        isNumerical: false,
+        isHidden: false,
+      },
+      {
+        name: "GRNT",
+        fullName: "Grant Number",
+        description: "NIH Grant Numbers",
+        isDate: false,
+        isNumerical: false,
+        isHidden: false,
+      },
+    ],
+    links: [],
+  };
+  const validator = new PubMedFieldTagValidator(info);
+
+  describe("findUnknownTags", () => {
+    it("should accept EInfo field names and full names in any case", () => {
+      expect(
+        validator.findUnknownTags(
+          "asthma[TIAB] AND child[title/abstract] AND R01[grnt] AND copd[MeSH  Terms]"
+        )
+      ).toEqual([]);
+    });
+
+    it("should accept documented short tags missing from EInfo", () => {
+      expect(
+        validator.findUnknownTags("Smith J[1au] AND Humans[mh] AND review[sb]")
+      ).toEqual([]);
+    });
+
+    it("should ignore tag modifiers", () => {
+      expect(
+        validator.findUnknownTags(
+          'Asthma[mh:noexp] AND "allergic rhinitis"[tiab:~3]'
+        )
+      ).toEqual([]);
+    });
+
+    it("should return unknown tags once, in order of appearance", () => {
+      expect(
+        validator.findUnknownTags(
+          "asthma[tiabs] OR wheeze[xx] OR cough[tiabs] OR copd[ tiab ]"
+        )
+      ).toEqual(["tiabs", "xx"]);
+    });
+
+    it("should ignore brackets inside quoted phrases", () => {
+      expect(validator.findUnknownTags('"drug [withdrawn]"[ti]')).toEqual([]);
+    });
+
+    it("should return no tags for untagged queries", () => {
+      expect(validator.findUnknownTags("asthma AND child")).toEqual([]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should pass queries with known tags", () => {
+      expect(() => validator.validate("asthma[tiab]")).not.toThrow();
+    });
+
+    it("should throw listing the unknown tags", () => {
+      expect(() => validator.validate("asthma[tiabs]")).toThrow(
+        "Unknown PubMed field tag: [tiabs]"
+      );
+      expect(() => validator.validate("asthma[tiabs] OR copd[mhs]")).toThrow(
+        "Unknown PubMed field tags: [tiabs], [mhs]"
+      );
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for PubMedMarkupRenderer
+ * Tests rendering of inline markup in titles and abstracts (no API calls)
+ */
+
+import { PubMedMarkupRenderer } from "../src/markup-renderer.js";
+
+describe("PubMedMarkupRenderer", () => {
+  const markup =
+    "Effect of <i>Escherichia coli</i> on Ca<sup>2+</sup> and CO<sub>2</sub> in <b>vivo</b>";
+
+  describe("plain", () => {
+    const renderer = new PubMedMarkupRenderer("plain");
+
+    it("should strip inline tags and keep text order", () => {
+      expect(renderer.render(markup)).toBe(
+        "Effect of Escherichia coli on Ca2+ and CO2 in vivo"
+      );
+    });
+
+    it("should be the default format", () => {
+      expect(new PubMedMarkupRenderer().render(markup)).toBe(
+        renderer.render(markup)
+      );
+    });
+
+    it("should decode named and numeric entities", () => {
+      expect(renderer.render("a &lt; b &amp;&amp; c &#945; &#x3B2;")).toBe(
+        "a < b && c α β"
+      );
+    });
+
+    it("should strip MathML and unknown tags", () => {
+      expect(
+        renderer.render(
+          'x <mml:math><mml:mi>y</mml:mi></mml:math> <u>z</u> <span class="a">w</span>'
+        )
+      ).toBe("x y z w");
+    });
+
+    it("should collapse whitespace", () => {
+      expect(renderer.render("  multi\n   line\ttitle  ")).toBe(
+        "multi line title"
+      );
+    });
+  });
+
+  describe("markdown", () => {
+    const renderer = new PubMedMarkupRenderer("markdown");
+
+    it("should convert italic, bold, superscript and subscript", () => {
+      expect(renderer.render(markup)).toBe(
+        "Effect of *Escherichia coli* on Ca^2+^ and CO~2~ in **vivo**"
+      );
+    });
+
+    it("should convert em and strong tags", () => {
+      expect(renderer.render("<em>a</em> <strong>b</strong>")).toBe(
+        "*a* **b**"
+      );
+    });
+
+    it("should strip tags without a Markdown equivalent", () => {
+      expect(renderer.render("<u>underlined</u> &gt; text")).toBe(
+        "underlined > text"
+      );
+    });
+  });
+
+  describe("html", () => {
+    const renderer = new PubMedMarkupRenderer("html");
+
+    it("should keep the original markup", () => {
+      expect(renderer.render(` ${markup} `)).toBe(markup);
+    });
+  });
+});
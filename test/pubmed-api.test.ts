@@ -7,7 +7,12 @@ import { PubMedAPIWrapper } from "../src/pubmed-api.js";
 import { RetryableHttpClient } from "../src/http-client.js";
 import { PubMedParser } from "../src/pubmed-parser.js";
 import { PubMedURLBuilder } from "../src/url-builder.js";
-import { PubMedArticleMetadata } from "../src/types.js";
+import { PubMedQuery } from "../src/query-builder.js";
+import {
+  PubMedArticleMetadata,
+  PubMedCitationEdge,
+  PubMedDatabaseInfo,
+} from "../src/types.js";
 
 // Mock dependencies
 jest.mock("../src/http-client.js");
@@ -21,11 +26,106 @@ describe("PubMedAPIWrapper", () => {
   let mockUrlBuilder: jest.Mocked<PubMedURLBuilder>;
 
   const mockArticle: PubMedArticleMetadata = {
+    kind: "journal",
     uid: "12345",
     Title: "Test Article",
+    languages: [],
     Published: "2024-10-15",
     "Copyright Information": "Copyright 2024",
     Summary: "This is a test summary.",
+    abstractSections: [{ text: "This is a test summary." }],
+    otherAbstracts: [],
+    authors: [
+      {
+        lastName: "Smith",
+        foreName: "Jane",
+        initials: "J",
+        affiliations: [],
+        equalContrib: false,
+      },
+    ],
+    journal: {
+      isoAbbreviation: "Test J",
+      volume: "12",
+      issue: "3",
+      pages: "45-67",
+      eLocationIds: [],
+    },
+    meshHeadings: [],
+    keywords: [],
+    chemicals: [],
+    supplementaryConcepts: [],
+    grants: [],
+    commentsCorrections: [],
+    retracted: false,
+    references: [],
+    publicationTypes: [{ name: "Journal Article", ui: "D016428" }],
+    evidenceLevel: "unclassified",
+    ids: { pmid: "12345", other: {} },
+  };
+
+  const diagnosticSearchResult = {
+    esearchresult: {
+      count: "1342",
+      webenv: "test-webenv",
+      querykey: "1",
+      idlist: ["12345"],
+      querytranslation:
+        '("asthma"[MeSH Terms] OR "asthma"[All Fields]) AND "xyzzyplugh"[All Fields]',
+      translationset: [
+        {
+          from: "asthma",
+          to: '"asthma"[MeSH Terms] OR "asthma"[All Fields]',
+        },
+      ],
+      translationstack: [
+        {
+          term: '"asthma"[MeSH Terms]',
+          field: "MeSH Terms",
+          count: "160000",
+          explode: "Y",
+        },
+        "GROUP",
+      ],
+      warninglist: {
+        phrasesignored: ["and the"],
+        quotedphrasesnotfound: ["inhaled steroid therapies"],
+        outputmessages: [],
+      },
+      errorlist: { phrasesnotfound: ["xyzzyplugh"], fieldsnotfound: ["xx"] },
+    },
+  };
+
+  /**
+   * Simulate an ESearch returning the IDs of the given articles,
+   * and an EFetch returning the articles themselves.
+   */
+  const mockSearchAndFetch = (articles: PubMedArticleMetadata[]) => {
+    mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+    mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+    const mockSearchResponse = {
+      json: jest.fn().mockResolvedValue({
+        esearchresult: {
+          webenv: "test-webenv",
+          idlist: articles.map((article) => article.uid),
+        },
+      }),
+    } as any;
+
+    const mockFetchResponse = {
+      text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+    } as any;
+
+    mockHttpClient.fetch
+      .mockResolvedValueOnce(mockSearchResponse)
+      .mockResolvedValue(mockFetchResponse);
+
+    mockParser.parseXML.mockReturnValue({} as any);
+    mockParser.extractArticleList.mockReturnValueOnce(articles);
+    mockParser.toDocument.mockImplementation(
+      (article) => ({ metadata: { uid: article.uid } }) as any
+    );
   };
 
   beforeEach(() => {
@@ -39,13 +139,24 @@ describe("PubMedAPIWrapper", () => {
 
     mockParser = {
       parseXML: jest.fn(),
-      extractArticleMetadata: jest.fn(),
       toDocument: jest.fn(),
+      toSectionDocuments: jest.fn(),
+      extractArticleList: jest.fn(),
+      extractDocSummaries: jest.fn(),
+      extractCorrectedQuery: jest.fn(),
+      extractDatabaseInfo: jest.fn(),
     } as any;
 
     mockUrlBuilder = {
       buildSearchUrl: jest.fn(),
       buildFetchUrl: jest.fn(),
+      buildFetchByIdsUrl: jest.fn(),
+      buildHistoryFetchUrl: jest.fn(),
+      buildSummaryByIdsUrl: jest.fn(),
+      buildHistorySummaryUrl: jest.fn(),
+      buildLinkUrl: jest.fn(),
+      buildSpellUrl: jest.fn(),
+      buildInfoUrl: jest.fn(),
     } as any;
 
     // Mock constructors
@@ -90,12 +201,28 @@ describe("PubMedAPIWrapper", () => {
         "test-key"
       );
     });
+
+    it("should pass the text format to the parser", () => {
+      new PubMedAPIWrapper({ textFormat: "markdown" });
+
+      expect(PubMedParser).toHaveBeenCalledWith(
+        expect.objectContaining({ textFormat: "markdown" })
+      );
+    });
+
+    it("should pass the preferred languages to the parser", () => {
+      new PubMedAPIWrapper({ preferredLanguages: ["ger", "eng"] });
+
+      expect(PubMedParser).toHaveBeenCalledWith(
+        expect.objectContaining({ preferredLanguages: ["ger", "eng"] })
+      );
+    });
   });
 
   describe("run", () => {
     it("should return formatted string with article metadata", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
@@ -115,119 +242,95 @@ describe("PubMedAPIWrapper", () => {
         .mockResolvedValueOnce(mockFetchResponse);
 
       mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
 
       const result = await wrapper.run("covid-19");
 
       expect(result).toContain("Published: 2024-10-15");
       expect(result).toContain("Title: Test Article");
+      expect(result).toContain("Authors: Smith J");
+      expect(result).toContain("Journal: Test J 12(3):45-67");
+      expect(result).toContain("Publication Types: Journal Article");
       expect(result).toContain("Summary:");
       expect(result).toContain("This is a test summary");
     });
 
-    it("should truncate query to maxQueryLength", async () => {
-      const longQueryWrapper = new PubMedAPIWrapper({
-        maxQueryLength: 10,
-      });
-
+    it("should start with the query translation and diagnostics when requested", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildHistoryFetchUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue(diagnosticSearchResult),
+        } as any)
+        .mockResolvedValueOnce({
+          text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+        } as any);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
 
-      const mockSearchResponse = {
-        json: jest.fn().mockResolvedValue({
-          esearchresult: {
-            webenv: "test-webenv",
-            idlist: [],
-          },
-        }),
-      } as any;
-
-      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
-
-      await longQueryWrapper.run("a".repeat(100));
+      const result = await wrapper.run("asthma xyzzyplugh", {
+        showQueryTranslation: true,
+      });
 
-      // The query should be truncated before being passed to load
-      expect(mockHttpClient.fetch).toHaveBeenCalled();
+      expect(result.split("\n")[0]).toBe(
+        'PubMed interpreted your query as: ("asthma"[MeSH Terms] OR "asthma"[All Fields]) AND "xyzzyplugh"[All Fields] ' +
+          '(Phrase not found: "xyzzyplugh"; Field not found: "xx"; Phrase ignored: "and the"; Quoted phrase not found: "inhaled steroid therapies")'
+      );
+      expect(result).toContain("Title: Test Article");
     });
 
-    it("should truncate content to docContentCharsMax", async () => {
-      const smallWrapper = new PubMedAPIWrapper({
-        topKResults: 1,
-        docContentCharsMax: 50,
+    it("should show the query translation when nothing was found", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        showQueryTranslation: true,
       });
-
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
-
-      const mockSearchResponse = {
+      mockHttpClient.fetch.mockResolvedValueOnce({
         json: jest.fn().mockResolvedValue({
           esearchresult: {
+            count: "0",
             webenv: "test-webenv",
-            idlist: ["12345"],
+            idlist: [],
+            querytranslation: '"xyzzyplugh"[All Fields]',
+            warninglist: { outputmessages: ["No items found."] },
           },
         }),
-      } as any;
-
-      const mockFetchResponse = {
-        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
-      } as any;
-
-      mockHttpClient.fetch
-        .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValueOnce(mockFetchResponse);
-
-      mockParser.parseXML.mockReturnValue({} as any);
-
-      const longArticle = {
-        ...mockArticle,
-        Summary: "a".repeat(200),
-      };
-      mockParser.extractArticleMetadata.mockReturnValue(longArticle);
+      } as any);
 
-      const result = await smallWrapper.run("test");
+      const result = await wrapper.run("xyzzyplugh");
 
-      expect(result.length).toBeLessThanOrEqual(50);
+      expect(result).toBe(
+        'PubMed interpreted your query as: "xyzzyplugh"[All Fields] (No items found.)\n\n' +
+          "No good PubMed Result was found"
+      );
     });
 
-    it("should return message when no results found", async () => {
+    it("should not show the query translation by default", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-
-      const mockSearchResponse = {
+      mockHttpClient.fetch.mockResolvedValueOnce({
         json: jest.fn().mockResolvedValue({
           esearchresult: {
-            webenv: "test-webenv",
+            ...diagnosticSearchResult.esearchresult,
             idlist: [],
           },
         }),
-      } as any;
-
-      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+      } as any);
 
-      const result = await wrapper.run("nonexistent query");
+      const result = await wrapper.run("asthma xyzzyplugh");
 
       expect(result).toBe("No good PubMed Result was found");
     });
 
-    it("should handle errors gracefully", async () => {
-      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockHttpClient.fetch.mockRejectedValue(new Error("Network error"));
-
-      const result = await wrapper.run("test");
-
-      expect(result).toContain("PubMed exception:");
-      expect(result).toContain("Network error");
-    });
-  });
-
-  describe("load", () => {
-    it("should return array of article metadata", async () => {
+    it("should abbreviate long author lists", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
           esearchresult: {
             webenv: "test-webenv",
-            idlist: ["12345", "67890"],
+            idlist: ["12345"],
           },
         }),
       } as any;
@@ -238,64 +341,124 @@ describe("PubMedAPIWrapper", () => {
 
       mockHttpClient.fetch
         .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValue(mockFetchResponse);
+        .mockResolvedValueOnce(mockFetchResponse);
 
       mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
+      mockParser.extractArticleList.mockReturnValue([
+        {
+          ...mockArticle,
+          authors: [
+            ...["A", "B", "C", "D", "E", "F", "G"].map((name) => ({
+              lastName: `Author${name}`,
+              initials: name,
+              affiliations: [],
+              equalContrib: false,
+            })),
+          ],
+        },
+      ]);
 
-      const results = await wrapper.load("test query");
+      const result = await wrapper.run("test");
 
-      expect(Array.isArray(results)).toBe(true);
-      expect(results.length).toBe(2);
-      expect(results[0]).toEqual(mockArticle);
+      expect(result).toContain(
+        "Authors: AuthorA A, AuthorB B, AuthorC C, AuthorD D, AuthorE E, AuthorF F, et al."
+      );
+      expect(result).not.toContain("AuthorG");
     });
 
-    it("should respect topKResults limit", async () => {
+    it("should cite the electronic location when pages are missing", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
           esearchresult: {
             webenv: "test-webenv",
-            idlist: [],
+            idlist: ["12345"],
           },
         }),
       } as any;
 
-      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
 
-      await wrapper.load("test");
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValueOnce(mockFetchResponse);
 
-      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith("test", 2);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([
+        {
+          ...mockArticle,
+          journal: {
+            title: "Online Journal",
+            volume: "7",
+            eLocationIds: [{ type: "pii", value: "e1234" }],
+          },
+        },
+      ]);
+
+      const result = await wrapper.run("test");
+
+      expect(result).toContain("Journal: Online Journal 7:e1234");
     });
 
-    it("should throw error when API returns invalid response", async () => {
+    it("should cite book chapters with their book details", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue({
+            esearchresult: { webenv: "test-webenv", idlist: ["20301425"] },
+          }),
+        } as any)
+        .mockResolvedValueOnce({
+          text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+        } as any);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([
+        {
+          ...mockArticle,
+          kind: "book",
+          Title:
+            "BRCA1- and BRCA2-Associated Hereditary Breast and Ovarian Cancer",
+          book: {
+            title: "GeneReviews",
+            publisher: "University of Washington, Seattle",
+            publisherLocation: "Seattle (WA)",
+            editors: [
+              {
+                lastName: "Adam",
+                initials: "MP",
+                affiliations: [],
+                equalContrib: false,
+              },
+            ],
+            locationLabel: "Chapter 12",
+            sectionTitles: ["Summary", "Diagnosis"],
+          },
+        },
+      ]);
 
-      const mockSearchResponse = {
-        json: jest.fn().mockResolvedValue({
-          esearchresult: {},
-        }),
-      } as any;
-
-      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+      const result = await wrapper.run("brca1");
 
-      await expect(wrapper.load("test")).rejects.toThrow(
-        "Invalid response from PubMed API"
+      expect(result).toContain(
+        "Book: Adam MP, editors. GeneReviews. Seattle (WA): University of Washington, Seattle; Chapter 12\n"
       );
+      expect(result).toContain("Sections: Summary, Diagnosis\n");
+      expect(result).not.toContain("Journal:");
     });
-  });
 
-  describe("lazyLoad", () => {
-    it("should yield articles one by one", async () => {
+    it("should omit the authors line when no authors are listed", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
           esearchresult: {
             webenv: "test-webenv",
-            idlist: ["12345", "67890"],
+            idlist: ["12345"],
           },
         }),
       } as any;
@@ -306,21 +469,26 @@ describe("PubMedAPIWrapper", () => {
 
       mockHttpClient.fetch
         .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValue(mockFetchResponse);
+        .mockResolvedValueOnce(mockFetchResponse);
 
       mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
+      mockParser.extractArticleList.mockReturnValue([
+        {
+          ...mockArticle,
+          authors: [],
+        },
+      ]);
 
-      const results: PubMedArticleMetadata[] = [];
-      for await (const article of wrapper.lazyLoad("test")) {
-        results.push(article);
-      }
+      const result = await wrapper.run("test");
 
-      expect(results.length).toBe(2);
-      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(3); // 1 search + 2 fetches
+      expect(result).not.toContain("Authors:");
     });
 
-    it("should handle empty result list", async () => {
+    it("should truncate query to maxQueryLength", async () => {
+      const longQueryWrapper = new PubMedAPIWrapper({
+        maxQueryLength: 10,
+      });
+
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
 
       const mockSearchResponse = {
@@ -334,19 +502,20 @@ describe("PubMedAPIWrapper", () => {
 
       mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
 
-      const results: PubMedArticleMetadata[] = [];
-      for await (const article of wrapper.lazyLoad("test")) {
-        results.push(article);
-      }
+      await longQueryWrapper.run("a".repeat(100));
 
-      expect(results.length).toBe(0);
+      // The query should be truncated before being passed to load
+      expect(mockHttpClient.fetch).toHaveBeenCalled();
     });
-  });
 
-  describe("loadDocs", () => {
-    it("should return array of Document instances", async () => {
+    it("should truncate content to docContentCharsMax", async () => {
+      const smallWrapper = new PubMedAPIWrapper({
+        topKResults: 1,
+        docContentCharsMax: 50,
+      });
+
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
@@ -366,103 +535,81 @@ describe("PubMedAPIWrapper", () => {
         .mockResolvedValueOnce(mockFetchResponse);
 
       mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
 
-      const mockDocument = {
-        pageContent: "Test content",
-        metadata: { uid: "12345" },
+      const longArticle = {
+        ...mockArticle,
+        Summary: "a".repeat(200),
       };
-      mockParser.toDocument.mockReturnValue(mockDocument as any);
+      mockParser.extractArticleList.mockReturnValue([longArticle]);
 
-      const docs = await wrapper.loadDocs("test");
+      const result = await smallWrapper.run("test");
 
-      expect(Array.isArray(docs)).toBe(true);
-      expect(docs.length).toBe(1);
-      expect(docs[0]).toEqual(mockDocument);
-      expect(mockParser.toDocument).toHaveBeenCalledWith(mockArticle);
+      expect(result.length).toBeLessThanOrEqual(50);
     });
-  });
 
-  describe("lazyLoadDocs", () => {
-    it("should yield Document instances one by one", async () => {
+    it("should return message when no results found", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
           esearchresult: {
             webenv: "test-webenv",
-            idlist: ["12345", "67890"],
+            idlist: [],
           },
         }),
       } as any;
 
-      const mockFetchResponse = {
-        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
-      } as any;
-
-      mockHttpClient.fetch
-        .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValue(mockFetchResponse);
-
-      mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
-
-      const mockDocument = {
-        pageContent: "Test content",
-        metadata: { uid: "12345" },
-      };
-      mockParser.toDocument.mockReturnValue(mockDocument as any);
+      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
 
-      const docs: any[] = [];
-      for await (const doc of wrapper.lazyLoadDocs("test")) {
-        docs.push(doc);
-      }
+      const result = await wrapper.run("nonexistent query");
 
-      expect(docs.length).toBe(2);
-      expect(mockParser.toDocument).toHaveBeenCalledTimes(2);
+      expect(result).toBe("No good PubMed Result was found");
     });
-  });
 
-  describe("Error handling", () => {
-    it("should propagate HTTP client errors in load", async () => {
+    it("should handle errors gracefully", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockHttpClient.fetch.mockRejectedValue(new Error("HTTP error"));
+      mockHttpClient.fetch.mockRejectedValue(new Error("Network error"));
 
-      await expect(wrapper.load("test")).rejects.toThrow("HTTP error");
+      const result = await wrapper.run("test");
+
+      expect(result).toContain("PubMed exception:");
+      expect(result).toContain("Network error");
     });
+  });
 
-    it("should propagate parser errors", async () => {
+  describe("load", () => {
+    it("should return array of article metadata", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
 
       const mockSearchResponse = {
         json: jest.fn().mockResolvedValue({
           esearchresult: {
             webenv: "test-webenv",
-            idlist: ["12345"],
+            idlist: ["12345", "67890"],
           },
         }),
       } as any;
 
       const mockFetchResponse = {
-        text: jest.fn().mockResolvedValue("<xml>invalid</xml>"),
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
       } as any;
 
       mockHttpClient.fetch
         .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValueOnce(mockFetchResponse);
+        .mockResolvedValue(mockFetchResponse);
 
-      mockParser.parseXML.mockImplementation(() => {
-        throw new Error("Parse error");
-      });
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle, mockArticle]);
 
-      await expect(wrapper.load("test")).rejects.toThrow("Parse error");
+      const results = await wrapper.load("test query");
+
+      expect(Array.isArray(results)).toBe(true);
+      expect(results.length).toBe(2);
+      expect(results[0]).toEqual(mockArticle);
     });
-  });
 
-  describe("URL building", () => {
-    it("should call URL builder with correct parameters for search", async () => {
+    it("should respect topKResults limit", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
 
       const mockSearchResponse = {
@@ -476,23 +623,1862 @@ describe("PubMedAPIWrapper", () => {
 
       mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
 
-      await wrapper.load("covid-19 vaccine");
+      await wrapper.load("test");
 
-      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
-        "covid-19 vaccine",
-        2
-      );
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith("test", 2, {});
     });
 
-    it("should call URL builder with correct parameters for fetch", async () => {
+    it("should accept a PubMedQuery and search its serialized term", async () => {
       mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
-      mockUrlBuilder.buildFetchUrl.mockReturnValue("fetch-url");
-
-      const mockSearchResponse = {
+      mockHttpClient.fetch.mockResolvedValueOnce({
         json: jest.fn().mockResolvedValue({
-          esearchresult: {
-            webenv: "test-webenv-123",
-            idlist: ["98765"],
+          esearchresult: { webenv: "test-webenv", idlist: [] },
+        }),
+      } as any);
+
+      await wrapper.load(
+        PubMedQuery.and(
+          PubMedQuery.term("asthma", "mh"),
+          PubMedQuery.phrase("inhaled corticosteroids", "tiab")
+        )
+      );
+
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
+        'asthma[mh] AND "inhaled corticosteroids"[tiab]',
+        2,
+        {}
+      );
+    });
+
+    it("should throw error when API returns invalid response", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {},
+        }),
+      } as any;
+
+      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+
+      await expect(wrapper.load("test")).rejects.toThrow(
+        "Invalid response from PubMed API"
+      );
+    });
+  });
+
+  describe("search", () => {
+    it("should return the IDs with the query translation and diagnostics", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue(diagnosticSearchResult),
+      } as any);
+
+      const outcome = await wrapper.search("asthma xyzzyplugh", {
+        sort: "pub_date",
+      });
+
+      expect(outcome).toEqual({
+        count: 1342,
+        ids: ["12345"],
+        webenv: "test-webenv",
+        queryKey: "1",
+        translation:
+          '("asthma"[MeSH Terms] OR "asthma"[All Fields]) AND "xyzzyplugh"[All Fields]',
+        translationSet: [
+          {
+            from: "asthma",
+            to: '"asthma"[MeSH Terms] OR "asthma"[All Fields]',
+          },
+        ],
+        warnings: [
+          'Phrase ignored: "and the"',
+          'Quoted phrase not found: "inhaled steroid therapies"',
+        ],
+        errors: ['Phrase not found: "xyzzyplugh"', 'Field not found: "xx"'],
+      });
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
+        "asthma xyzzyplugh",
+        2,
+        { sort: "pub_date" }
+      );
+      // No articles are retrieved
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return empty diagnostics for a clean search", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue({
+          esearchresult: { webenv: "test-webenv", idlist: ["1", "2"] },
+        }),
+      } as any);
+
+      const outcome = await wrapper.search("asthma");
+
+      expect(outcome).toEqual({
+        count: 2,
+        ids: ["1", "2"],
+        webenv: "test-webenv",
+        translationSet: [],
+        warnings: [],
+        errors: [],
+      });
+    });
+
+    it("should throw the error reported by ESearch", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue({
+          esearchresult: { ERROR: "Empty term and query_key - nothing todo" },
+        }),
+      } as any);
+
+      await expect(wrapper.search("")).rejects.toThrow(
+        "PubMed search error: Empty term and query_key - nothing todo"
+      );
+    });
+  });
+
+  describe("summary mode", () => {
+    const summary = {
+      uid: "12345",
+      title: "Test Article",
+      authors: ["Smith J"],
+      source: "Test J",
+      pubdate: "2024 Oct 15",
+      languages: ["eng"],
+      publicationTypes: ["Journal Article"],
+      hasAbstract: true,
+      retracted: false,
+    };
+    const summaryResponse = { result: { uids: ["12345", "67890"] } };
+
+    const mockSummarySearch = (esearchresult: object) => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildHistorySummaryUrl.mockReturnValue("summary-url");
+      mockUrlBuilder.buildSummaryByIdsUrl.mockReturnValue("summary-url");
+      mockHttpClient.fetch
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue({ esearchresult }),
+        } as any)
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue(summaryResponse),
+        } as any);
+    };
+
+    it("should retrieve document summaries from the History server instead of full records", async () => {
+      mockSummarySearch({
+        webenv: "test-webenv",
+        querykey: "1",
+        idlist: ["12345", "67890"],
+      });
+      mockParser.extractDocSummaries.mockReturnValue([
+        summary,
+        { ...summary, uid: "67890" },
+      ]);
+
+      const results = await wrapper.load("test", { mode: "summary" });
+
+      expect(results.map((result) => result.uid)).toEqual(["12345", "67890"]);
+      expect(results[0].hasAbstract).toBe(true);
+      expect(mockUrlBuilder.buildHistorySummaryUrl).toHaveBeenCalledWith(
+        "test-webenv",
+        "1",
+        0,
+        2
+      );
+      expect(mockHttpClient.fetch).toHaveBeenLastCalledWith(
+        "summary-url",
+        "2 summaries"
+      );
+      expect(mockParser.extractDocSummaries).toHaveBeenCalledWith(
+        summaryResponse,
+        ["12345", "67890"]
+      );
+      expect(mockUrlBuilder.buildHistoryFetchUrl).not.toHaveBeenCalled();
+      expect(mockParser.extractArticleList).not.toHaveBeenCalled();
+    });
+
+    it("should request summaries by ID without a query key", async () => {
+      mockSummarySearch({ webenv: "test-webenv", idlist: ["12345"] });
+      mockParser.extractDocSummaries.mockReturnValue([summary]);
+
+      const results: string[] = [];
+      for await (const result of wrapper.lazyLoad("test", {
+        mode: "summary",
+      })) {
+        results.push(result.source);
+      }
+
+      expect(results).toEqual(["Test J"]);
+      expect(mockUrlBuilder.buildSummaryByIdsUrl).toHaveBeenCalledWith([
+        "12345",
+      ]);
+    });
+
+    it("should drop retracted summaries when the retraction policy is exclude", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        retractionPolicy: "exclude",
+      });
+      mockSummarySearch({
+        webenv: "test-webenv",
+        querykey: "1",
+        idlist: ["12345", "67890"],
+      });
+      mockParser.extractDocSummaries.mockReturnValue([
+        { ...summary, retracted: true },
+        { ...summary, uid: "67890" },
+      ]);
+
+      const results = await wrapper.load("test", { mode: "summary" });
+
+      expect(results.map((result) => result.uid)).toEqual(["67890"]);
+    });
+
+    it("should throw the error reported by ESummary", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildHistorySummaryUrl.mockReturnValue("summary-url");
+      mockHttpClient.fetch
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue({
+            esearchresult: {
+              webenv: "test-webenv",
+              querykey: "1",
+              idlist: ["12345"],
+            },
+          }),
+        } as any)
+        .mockResolvedValueOnce({
+          json: jest.fn().mockResolvedValue({ error: "Invalid query_key" }),
+        } as any);
+
+      await expect(wrapper.load("test", { mode: "summary" })).rejects.toThrow(
+        "PubMed summary error: Invalid query_key"
+      );
+    });
+  });
+
+  describe("spelling correction", () => {
+    /**
+     * Simulate ESearch returning results only for the given term,
+     * and ESpell suggesting the given correction.
+     */
+    const mockSpelling = (knownTerm: string, correctedQuery: string) => {
+      mockUrlBuilder.buildSearchUrl.mockImplementation(
+        (query) => `search:${query}`
+      );
+      mockUrlBuilder.buildSpellUrl.mockReturnValue("spell-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch.mockImplementation(async (url: string) => {
+        if (url.startsWith("search:")) {
+          return {
+            json: jest.fn().mockResolvedValue({
+              esearchresult: {
+                webenv: "test-webenv",
+                idlist: url === `search:${knownTerm}` ? ["12345"] : [],
+              },
+            }),
+          } as any;
+        }
+        return { text: jest.fn().mockResolvedValue("<xml>test</xml>") } as any;
+      });
+      mockParser.extractCorrectedQuery.mockReturnValue(correctedQuery);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
+    };
+
+    it("should suggest a spelling correction", async () => {
+      mockSpelling("asthma", "asthma");
+
+      expect(await wrapper.suggestSpelling("asthmaa")).toBe("asthma");
+      expect(mockUrlBuilder.buildSpellUrl).toHaveBeenCalledWith("asthmaa");
+      expect(mockHttpClient.fetch).toHaveBeenCalledWith(
+        "spell-url",
+        "spelling request"
+      );
+    });
+
+    it("should return undefined when ESpell only echoes the query", async () => {
+      mockSpelling("asthma", "asthma treatment");
+
+      expect(
+        await wrapper.suggestSpelling("Asthma  Treatment")
+      ).toBeUndefined();
+    });
+
+    it("should return undefined without a suggestion", async () => {
+      mockSpelling("asthma", "");
+
+      expect(await wrapper.suggestSpelling("xyzzyplugh")).toBeUndefined();
+    });
+
+    it("should retry run once with the corrected query and report the correction", async () => {
+      mockSpelling("asthma", "asthma");
+
+      const result = await wrapper.run("asthmaa", { correctSpelling: true });
+
+      expect(result).toMatch(
+        /^No results for "asthmaa"; showing results for the corrected query "asthma"\.\n\n/
+      );
+      expect(result).toContain("Title: Test Article");
+      expect(
+        mockUrlBuilder.buildSearchUrl.mock.calls.map(([query]) => query)
+      ).toEqual(["asthmaa", "asthma"]);
+    });
+
+    it("should use the wrapper default", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        correctSpelling: true,
+      });
+      mockSpelling("asthma", "asthma");
+
+      const result = await wrapper.run("asthmaa");
+
+      expect(result).toContain('corrected query "asthma"');
+    });
+
+    it("should not check spelling when the query has results", async () => {
+      mockSpelling("asthma", "asthma");
+
+      const result = await wrapper.run("asthma", { correctSpelling: true });
+
+      expect(result).not.toContain("corrected query");
+      expect(mockUrlBuilder.buildSpellUrl).not.toHaveBeenCalled();
+    });
+
+    it("should not check spelling by default", async () => {
+      mockSpelling("asthma", "asthma");
+
+      const result = await wrapper.run("asthmaa");
+
+      expect(result).toBe("No good PubMed Result was found");
+      expect(mockUrlBuilder.buildSpellUrl).not.toHaveBeenCalled();
+    });
+
+    it("should report no results when the spelling request fails", async () => {
+      mockSpelling("asthma", "asthma");
+      mockHttpClient.fetch.mockImplementation(async (url: string) => {
+        if (url === "spell-url") {
+          throw new Error("HTTP 500 for spelling request");
+        }
+        return {
+          json: jest.fn().mockResolvedValue({
+            esearchresult: { webenv: "test-webenv", idlist: [] },
+          }),
+        } as any;
+      });
+
+      const result = await wrapper.run("asthmaa", { correctSpelling: true });
+
+      expect(result).toBe("No good PubMed Result was found");
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report the correction when the corrected query finds nothing either", async () => {
+      mockSpelling("asthma", "astma");
+
+      const result = await wrapper.run("asthmaa", { correctSpelling: true });
+
+      expect(result).toBe(
+        'No results for "asthmaa"; also no results for the corrected query "astma".\n\n' +
+          "No good PubMed Result was found"
+      );
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("database info", () => {
+    const mockDatabaseInfo: PubMedDatabaseInfo = {
+      name: "pubmed",
+      menuName: "PubMed",
+      description: "PubMed bibliographic record",
+      count: 37512347,
+      lastUpdate: "2024/06/11 05:38",
+      fields: [
+        {
+          name: "TIAB",
+          fullName: "Title/Abstract",
+          description: "Free text associated with Abstract/Title",
+          isDate: false,
+          isNumerical: false,
+          isHidden: false,
+        },
+      ],
+      links: [],
+    };
+
+    beforeEach(() => {
+      mockUrlBuilder.buildInfoUrl.mockImplementation(
+        (database) => `info:${database}`
+      );
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch.mockImplementation(async (url: string) => {
+        if (url.startsWith("info:")) {
+          return {
+            json: jest.fn().mockResolvedValue({ einforesult: {} }),
+          } as any;
+        }
+        if (url === "search-url") {
+          return {
+            json: jest.fn().mockResolvedValue({
+              esearchresult: { webenv: "test-webenv", idlist: ["12345"] },
+            }),
+          } as any;
+        }
+        return { text: jest.fn().mockResolvedValue("<xml>test</xml>") } as any;
+      });
+      mockParser.extractDatabaseInfo.mockReturnValue(mockDatabaseInfo);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
+    });
+
+    it("should describe the PubMed database", async () => {
+      const info = await wrapper.getDatabaseInfo();
+
+      expect(info).toBe(mockDatabaseInfo);
+      expect(mockUrlBuilder.buildInfoUrl).toHaveBeenCalledWith("pubmed");
+      expect(mockHttpClient.fetch).toHaveBeenCalledWith(
+        "info:pubmed",
+        "database info request"
+      );
+    });
+
+    it("should cache descriptions per database", async () => {
+      await Promise.all([
+        wrapper.getDatabaseInfo(),
+        wrapper.getDatabaseInfo("pubmed"),
+      ]);
+      await wrapper.getDatabaseInfo("pmc");
+      await wrapper.getDatabaseInfo();
+
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(2);
+      expect(mockUrlBuilder.buildInfoUrl.mock.calls).toEqual([
+        ["pubmed"],
+        ["pmc"],
+      ]);
+    });
+
+    it("should throw EInfo errors and retry after a failure", async () => {
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue({
+          einforesult: { ERROR: "Invalid db name specified: pubmd" },
+        }),
+      } as any);
+
+      await expect(wrapper.getDatabaseInfo()).rejects.toThrow(
+        "PubMed info error: Invalid db name specified: pubmd"
+      );
+      expect(await wrapper.getDatabaseInfo()).toBe(mockDatabaseInfo);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should find unknown field tags of a query", async () => {
+      expect(
+        await wrapper.findUnknownFieldTags(
+          "asthma[tiabs] AND child[Title/Abstract] AND copd[mh]"
+        )
+      ).toEqual(["tiabs"]);
+      expect(
+        await wrapper.findUnknownFieldTags(
+          PubMedQuery.and(
+            PubMedQuery.term("asthma", "tiab"),
+            PubMedQuery.term("Review", "pt")
+          )
+        )
+      ).toEqual([]);
+    });
+
+    it("should not validate field tags by default", async () => {
+      const result = await wrapper.run("asthma[tiabs]");
+
+      expect(result).toContain("Title: Test Article");
+      expect(mockUrlBuilder.buildInfoUrl).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown field tags before searching", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        validateFieldTags: true,
+      });
+
+      await expect(
+        wrapper.search("asthma[tiabs] OR wheez*[tw] OR cough[xx]")
+      ).rejects.toThrow("Unknown PubMed field tags: [tiabs], [xx]");
+      expect(mockUrlBuilder.buildSearchUrl).not.toHaveBeenCalled();
+
+      const result = await wrapper.run("asthma[tiab]");
+      expect(result).toContain("Title: Test Article");
+      expect(mockHttpClient.fetch).toHaveBeenCalledWith(
+        "info:pubmed",
+        "database info request"
+      );
+      expect(mockUrlBuilder.buildInfoUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report unknown field tags from run", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        validateFieldTags: true,
+      });
+
+      const result = await wrapper.run("asthma[tiabs]");
+
+      expect(result).toBe(
+        "PubMed exception: Error: Unknown PubMed field tag: [tiabs]"
+      );
+    });
+  });
+
+  describe("lazyLoad", () => {
+    it("should yield articles one by one", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345", "67890"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValue(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle, mockArticle]);
+
+      const results: PubMedArticleMetadata[] = [];
+      for await (const article of wrapper.lazyLoad("test")) {
+        results.push(article);
+      }
+
+      expect(results.length).toBe(2);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(2); // 1 search + 1 batch fetch
+    });
+
+    it("should retrieve results in batches of fetchBatchSize", async () => {
+      const batchingWrapper = new PubMedAPIWrapper({
+        topKResults: 5,
+        fetchBatchSize: 2,
+      });
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildHistoryFetchUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            querykey: "1",
+            idlist: ["1", "2", "3", "4", "5"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValue(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockImplementation((_xml, uids = []) =>
+        uids.map((uid) => ({ ...mockArticle, uid }))
+      );
+
+      const iterator = batchingWrapper.lazyLoad("test");
+      const first = await iterator.next();
+
+      // The first article is yielded before the later batches are fetched
+      expect(first.value?.uid).toBe("1");
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(2);
+
+      const rest: string[] = [];
+      for await (const article of iterator) {
+        rest.push(article.uid);
+      }
+
+      expect(rest).toEqual(["2", "3", "4", "5"]);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(4);
+      expect(mockUrlBuilder.buildHistoryFetchUrl.mock.calls).toEqual([
+        ["test-webenv", "1", 0, 2],
+        ["test-webenv", "1", 2, 2],
+        ["test-webenv", "1", 4, 1],
+      ]);
+    });
+
+    it("should handle empty result list", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: [],
+          },
+        }),
+      } as any;
+
+      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+
+      const results: PubMedArticleMetadata[] = [];
+      for await (const article of wrapper.lazyLoad("test")) {
+        results.push(article);
+      }
+
+      expect(results.length).toBe(0);
+    });
+  });
+
+  describe("iterateAll", () => {
+    /**
+     * Simulate ESearch/EFetch over a result set whose records are grouped in
+     * publication months. URLs carry their parameters as JSON.
+     */
+    const mockResultSet = (months: Record<string, number>) => {
+      const records = Object.entries(months).flatMap(([date, size]) =>
+        Array.from({ length: size }, (_, index) => ({
+          date,
+          uid: `${date}-${index}`,
+        }))
+      );
+
+      mockUrlBuilder.buildSearchUrl.mockImplementation(
+        (_query, maxResults, options = {}) =>
+          JSON.stringify({ endpoint: "esearch", maxResults, ...options })
+      );
+      mockUrlBuilder.buildHistoryFetchUrl.mockReturnValue("efetch");
+      mockHttpClient.fetch.mockImplementation(async (url: string) => {
+        if (url === "efetch") {
+          return { text: jest.fn().mockResolvedValue("<xml />") } as any;
+        }
+        const request = JSON.parse(url);
+        const matching = records.filter(
+          (record) =>
+            !request.mindate ||
+            (record.date >= request.mindate && record.date <= request.maxdate)
+        );
+        const retstart = request.retstart ?? 0;
+        return {
+          json: jest.fn().mockResolvedValue({
+            esearchresult: {
+              webenv: "test-webenv",
+              querykey: "1",
+              count: String(matching.length),
+              idlist: matching
+                .slice(retstart, retstart + request.maxResults)
+                .map((record) => record.uid),
+            },
+          }),
+        } as any;
+      });
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockImplementation((_xml, uids = []) =>
+        uids.map((uid) => ({ ...mockArticle, uid }))
+      );
+    };
+
+    const collect = async (iterator: AsyncIterable<PubMedArticleMetadata>) => {
+      const uids: string[] = [];
+      for await (const article of iterator) {
+        uids.push(article.uid);
+      }
+      return uids;
+    };
+
+    it("should page through the result set and report the total count", async () => {
+      mockResultSet({ "2024/03/15": 5 });
+      const onCount = jest.fn();
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 2, onCount })
+      );
+
+      expect(onCount).toHaveBeenCalledWith(5);
+      expect(uids).toEqual([0, 1, 2, 3, 4].map((i) => `2024/03/15-${i}`));
+      expect(mockUrlBuilder.buildSearchUrl.mock.calls).toEqual([
+        ["test", 2, {}],
+        ["test", 2, { retstart: 2, webenv: "test-webenv", queryKey: "1" }],
+        ["test", 1, { retstart: 4, webenv: "test-webenv", queryKey: "1" }],
+      ]);
+      expect(mockUrlBuilder.buildHistoryFetchUrl.mock.calls).toEqual([
+        ["test-webenv", "1", 0, 2],
+        ["test-webenv", "1", 2, 2],
+        ["test-webenv", "1", 4, 1],
+      ]);
+    });
+
+    it("should stop after the limit without requesting further pages", async () => {
+      mockResultSet({ "2024/03/15": 5 });
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 2, limit: 3 })
+      );
+
+      expect(uids).toHaveLength(3);
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledTimes(2);
+      expect(mockUrlBuilder.buildHistoryFetchUrl.mock.calls).toEqual([
+        ["test-webenv", "1", 0, 2],
+        ["test-webenv", "1", 2, 1],
+      ]);
+    });
+
+    it("should not request another page when the limit is a multiple of the page size", async () => {
+      mockResultSet({ "2024/03/15": 10 });
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 2, limit: 4 })
+      );
+
+      expect(uids).toHaveLength(4);
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledTimes(2);
+      expect(mockUrlBuilder.buildHistoryFetchUrl.mock.calls).toEqual([
+        ["test-webenv", "1", 0, 2],
+        ["test-webenv", "1", 2, 2],
+      ]);
+    });
+
+    it("should size pages to the limit", async () => {
+      mockResultSet({ "2024/03/15": 500 });
+
+      const uids = await collect(wrapper.iterateAll("test", { limit: 5 }));
+
+      expect(uids).toHaveLength(5);
+      expect(mockUrlBuilder.buildSearchUrl.mock.calls).toEqual([
+        ["test", 5, {}],
+      ]);
+      expect(mockUrlBuilder.buildHistoryFetchUrl.mock.calls).toEqual([
+        ["test-webenv", "1", 0, 5],
+      ]);
+    });
+
+    it("should split result sets beyond 10,000 hits into date ranges", async () => {
+      mockResultSet({ "2010/07/01": 9000, "2024/03/15": 6000 });
+      const onCount = jest.fn();
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 10000, onCount })
+      );
+
+      expect(onCount).toHaveBeenCalledWith(15000);
+      expect(uids).toHaveLength(15000);
+      expect(new Set(uids).size).toBe(15000);
+      // Newest date range first
+      expect(uids[0]).toBe("2024/03/15-0");
+      expect(uids[6000]).toBe("2010/07/01-0");
+
+      const requests = mockUrlBuilder.buildSearchUrl.mock.calls.map(
+        ([, maxResults, options]) => ({ maxResults, ...options })
+      );
+      expect(
+        requests.every(
+          (request) => request.maxResults + (request.retstart ?? 0) <= 10000
+        )
+      ).toBe(true);
+      expect(requests.slice(1).every((request) => request.datetype)).toBe(true);
+    });
+
+    it("should include records dated after the current year", async () => {
+      const nextYear = new Date().getUTCFullYear() + 1;
+      mockResultSet({
+        "2010/07/01": 9000,
+        "2024/03/15": 6000,
+        [`${nextYear}/01/15`]: 500,
+      });
+      const onCount = jest.fn();
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 10000, onCount })
+      );
+
+      expect(onCount).toHaveBeenCalledWith(15500);
+      expect(uids).toHaveLength(15500);
+      expect(uids).toContain(`${nextYear}/01/15-499`);
+    });
+
+    it("should probe date ranges for their count only", async () => {
+      mockResultSet({ "2010/07/01": 9000, "2024/03/15": 6000 });
+
+      await collect(wrapper.iterateAll("test", { pageSize: 10000 }));
+
+      const requests = mockUrlBuilder.buildSearchUrl.mock.calls.map(
+        ([, maxResults, options = {}]) => ({ maxResults, ...options })
+      );
+      // The whole range is not searched again after the first request
+      expect(
+        requests.some(
+          (request) =>
+            request.mindate === "1781/01/01" && request.maxdate === "3000/12/31"
+        )
+      ).toBe(false);
+      // IDs are searched once for the query and once per final slice
+      const idSearches = requests.filter((request) => request.maxResults > 0);
+      expect(idSearches.map((request) => request.mindate)).toEqual([
+        undefined,
+        expect.stringMatching(/^20/),
+        expect.stringMatching(/^20/),
+      ]);
+      expect(requests.length).toBeGreaterThan(idSearches.length);
+    });
+
+    it("should not slice by date when a date filter is set", async () => {
+      mockResultSet({ "2010/07/01": 9000, "2024/03/15": 6000 });
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 5000, reldate: 365 })
+      );
+
+      expect(uids).toHaveLength(10000);
+      expect(
+        mockUrlBuilder.buildSearchUrl.mock.calls.every(
+          ([, , options]) => options?.reldate === 365 && !options?.mindate
+        )
+      ).toBe(true);
+    });
+
+    it("should not slice by date when the limit stays within 10,000 hits", async () => {
+      mockResultSet({ "2010/07/01": 9000, "2024/03/15": 6000 });
+
+      const uids = await collect(
+        wrapper.iterateAll("test", { pageSize: 5000, limit: 7000 })
+      );
+
+      expect(uids).toHaveLength(7000);
+      expect(
+        mockUrlBuilder.buildSearchUrl.mock.calls.some(
+          ([, , options]) => options?.mindate
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("loadDocs", () => {
+    it("should return array of Document instances", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValueOnce(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
+
+      const mockDocument = {
+        pageContent: "Test content",
+        metadata: { uid: "12345" },
+      };
+      mockParser.toDocument.mockReturnValue(mockDocument as any);
+
+      const docs = await wrapper.loadDocs("test");
+
+      expect(Array.isArray(docs)).toBe(true);
+      expect(docs.length).toBe(1);
+      expect(docs[0]).toEqual(mockDocument);
+      expect(mockParser.toDocument).toHaveBeenCalledWith(mockArticle);
+    });
+  });
+
+  describe("loadDocs with section splitting", () => {
+    it("should emit the section Documents of every article", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345", "67890"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValue(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle, mockArticle]);
+      mockParser.toSectionDocuments.mockReturnValue([
+        { pageContent: "Background", metadata: { section: "BACKGROUND" } },
+        { pageContent: "Results", metadata: { section: "RESULTS" } },
+      ] as any);
+
+      const docs = await wrapper.loadDocs("test", { splitSections: true });
+
+      expect(docs).toHaveLength(4);
+      expect(mockParser.toSectionDocuments).toHaveBeenCalledWith(mockArticle);
+      expect(mockParser.toDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lazyLoadDocs", () => {
+    it("should yield Document instances one by one", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345", "67890"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValue(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle, mockArticle]);
+
+      const mockDocument = {
+        pageContent: "Test content",
+        metadata: { uid: "12345" },
+      };
+      mockParser.toDocument.mockReturnValue(mockDocument as any);
+
+      const docs: any[] = [];
+      for await (const doc of wrapper.lazyLoadDocs("test")) {
+        docs.push(doc);
+      }
+
+      expect(docs.length).toBe(2);
+      expect(mockParser.toDocument).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Evidence ranking", () => {
+    const articles: PubMedArticleMetadata[] = [
+      {
+        ...mockArticle,
+        uid: "1",
+        Title: "Case Report",
+        evidenceLevel: "case-report",
+      },
+      { ...mockArticle, uid: "2", Title: "Plain Article" },
+      {
+        ...mockArticle,
+        uid: "3",
+        Title: "Meta Analysis",
+        evidenceLevel: "systematic-review",
+      },
+      { ...mockArticle, uid: "4", Title: "Trial", evidenceLevel: "rct" },
+    ];
+
+    it("should keep relevance order by default", async () => {
+      mockSearchAndFetch(articles);
+
+      const docs = await wrapper.loadDocs("test");
+
+      expect(docs.map((doc) => doc.metadata.uid)).toEqual(["1", "2", "3", "4"]);
+    });
+
+    it("should sort documents by evidence level when requested", async () => {
+      mockSearchAndFetch(articles);
+
+      const docs = await wrapper.loadDocs("test", { sortByEvidence: true });
+
+      expect(docs.map((doc) => doc.metadata.uid)).toEqual(["3", "4", "1", "2"]);
+    });
+
+    it("should filter documents below the minimum evidence level", async () => {
+      mockSearchAndFetch(articles);
+
+      const docs = await wrapper.loadDocs("test", {
+        minEvidenceLevel: "rct",
+      });
+
+      expect(docs.map((doc) => doc.metadata.uid)).toEqual(["3", "4"]);
+    });
+
+    it("should sort run output using wrapper defaults", async () => {
+      const rankingWrapper = new PubMedAPIWrapper({
+        topKResults: 4,
+        sortByEvidence: true,
+      });
+      mockSearchAndFetch(articles);
+
+      const result = await rankingWrapper.run("test");
+
+      expect(result.indexOf("Meta Analysis")).toBeLessThan(
+        result.indexOf("Trial")
+      );
+      expect(result.indexOf("Trial")).toBeLessThan(
+        result.indexOf("Case Report")
+      );
+      expect(result.indexOf("Case Report")).toBeLessThan(
+        result.indexOf("Plain Article")
+      );
+    });
+
+    it("should let per-call options override wrapper defaults", async () => {
+      const filteringWrapper = new PubMedAPIWrapper({
+        topKResults: 4,
+        minEvidenceLevel: "systematic-review",
+      });
+      mockSearchAndFetch(articles);
+
+      const result = await filteringWrapper.run("test", {
+        minEvidenceLevel: "case-report",
+      });
+
+      expect(result).toContain("Case Report");
+      expect(result).toContain("Meta Analysis");
+      expect(result).not.toContain("Plain Article");
+    });
+
+    it("should report no results when everything is filtered out", async () => {
+      mockSearchAndFetch([articles[1]]);
+
+      const result = await wrapper.run("test", {
+        minEvidenceLevel: "case-report",
+      });
+
+      expect(result).toBe("No good PubMed Result was found");
+    });
+
+    it("should rank unclassified articles above opinion pieces", async () => {
+      mockSearchAndFetch([
+        { ...mockArticle, uid: "5", evidenceLevel: "opinion" },
+        articles[1],
+      ]);
+
+      const docs = await wrapper.loadDocs("test", {
+        sortByEvidence: true,
+        minEvidenceLevel: "opinion",
+      });
+
+      expect(docs.map((doc) => doc.metadata.uid)).toEqual(["2", "5"]);
+    });
+  });
+
+  describe("MeSH helpers", () => {
+    const createArticle = (
+      uid: string,
+      headings: PubMedArticleMetadata["meshHeadings"]
+    ): PubMedArticleMetadata => ({
+      ...mockArticle,
+      uid,
+      meshHeadings: headings,
+    });
+
+    const articles = [
+      createArticle("1", [
+        {
+          descriptor: "COVID-19",
+          descriptorUi: "D000086382",
+          majorTopic: true,
+          qualifiers: [],
+        },
+        { descriptor: "Humans", majorTopic: false, qualifiers: [] },
+      ]),
+      createArticle("2", [
+        {
+          descriptor: "COVID-19",
+          descriptorUi: "D000086382",
+          majorTopic: false,
+          qualifiers: [],
+        },
+      ]),
+      createArticle("3", []),
+    ];
+
+    it("should filter articles by descriptor name", () => {
+      const results = wrapper.filterByMeshHeading(articles, "covid-19");
+
+      expect(results.map((article) => article.uid)).toEqual(["1", "2"]);
+    });
+
+    it("should filter articles by descriptor UI", () => {
+      const results = wrapper.filterByMeshHeading(articles, "D000086382");
+
+      expect(results.map((article) => article.uid)).toEqual(["1", "2"]);
+    });
+
+    it("should filter articles by major topic only", () => {
+      const results = wrapper.filterByMeshHeading(articles, "COVID-19", {
+        majorTopicOnly: true,
+      });
+
+      expect(results.map((article) => article.uid)).toEqual(["1"]);
+    });
+
+    it("should group articles by descriptor", () => {
+      const groups = wrapper.groupByMeshHeading(articles);
+
+      expect(Object.keys(groups)).toEqual(["COVID-19", "Humans"]);
+      expect(groups["COVID-19"].map((article) => article.uid)).toEqual([
+        "1",
+        "2",
+      ]);
+      expect(groups["Humans"].map((article) => article.uid)).toEqual(["1"]);
+    });
+
+    it("should group articles by major topic only", () => {
+      const groups = wrapper.groupByMeshHeading(articles, {
+        majorTopicOnly: true,
+      });
+
+      expect(Object.keys(groups)).toEqual(["COVID-19"]);
+      expect(groups["COVID-19"].map((article) => article.uid)).toEqual(["1"]);
+    });
+  });
+
+  describe("Retraction policy", () => {
+    const retractedArticle: PubMedArticleMetadata = {
+      ...mockArticle,
+      uid: "67890",
+      Title: "Retracted Article",
+      retracted: true,
+      commentsCorrections: [
+        {
+          refType: "RetractionIn",
+          refSource: "Test J. 2024;1:1",
+          pmid: "11111",
+        },
+      ],
+    };
+
+    it("should flag retracted articles by default", async () => {
+      mockSearchAndFetch([mockArticle, retractedArticle]);
+
+      const result = await wrapper.run("test");
+
+      expect(result).toContain(
+        "WARNING: This article has been retracted (see PMID 11111)."
+      );
+      expect(result.match(/WARNING/g)).toHaveLength(1);
+      expect(
+        result.indexOf("WARNING") < result.indexOf("Retracted Article")
+      ).toBe(true);
+    });
+
+    it("should exclude retracted articles when configured", async () => {
+      const excludingWrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        retractionPolicy: "exclude",
+      });
+      mockSearchAndFetch([mockArticle, retractedArticle]);
+
+      const results = await excludingWrapper.load("test");
+
+      expect(results.map((article) => article.uid)).toEqual(["12345"]);
+    });
+
+    it("should include retracted articles without a warning when configured", async () => {
+      const includingWrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        retractionPolicy: "include",
+      });
+      mockSearchAndFetch([mockArticle, retractedArticle]);
+
+      const result = await includingWrapper.run("test");
+
+      expect(result).toContain("Retracted Article");
+      expect(result).not.toContain("WARNING");
+    });
+  });
+
+  describe("getByIds", () => {
+    const mockFetches = () => {
+      mockUrlBuilder.buildFetchByIdsUrl.mockImplementation(
+        (uids) => `fetch-url?id=${uids.join(",")}`
+      );
+      mockHttpClient.fetch.mockResolvedValue({
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any);
+      mockParser.parseXML.mockReturnValue({} as any);
+      // Only even PMIDs exist
+      mockParser.extractArticleList.mockImplementation((_xml, uids = []) =>
+        uids
+          .filter((uid) => Number(uid) % 2 === 0)
+          .map((uid) => ({ ...mockArticle, uid }))
+      );
+    };
+
+    it("should return articles in input order with not-found entries", async () => {
+      mockFetches();
+
+      const results = await wrapper.getByIds(["4", "3", "abc", "2", "4"]);
+
+      expect(
+        results.map((result) =>
+          result.kind === "not-found" ? `missing ${result.uid}` : result.uid
+        )
+      ).toEqual(["4", "missing 3", "missing abc", "2", "4"]);
+      // Invalid and duplicate IDs are not requested
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenCalledWith([
+        "4",
+        "3",
+        "2",
+      ]);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fetch large ID lists in batches of 200", async () => {
+      mockFetches();
+      const pmids = Array.from({ length: 450 }, (_, index) =>
+        String(index + 1)
+      );
+
+      const results = await wrapper.getByIds(pmids);
+
+      expect(
+        mockUrlBuilder.buildFetchByIdsUrl.mock.calls.map(
+          ([uids]) => uids.length
+        )
+      ).toEqual([200, 200, 50]);
+      expect(results).toHaveLength(450);
+      expect(results[0]).toEqual({ kind: "not-found", uid: "1" });
+      expect(results[449]).toMatchObject({ kind: "journal", uid: "450" });
+    });
+
+    it("should keep retracted articles regardless of the retraction policy", async () => {
+      wrapper = new PubMedAPIWrapper({
+        email: "test@example.com",
+        retractionPolicy: "exclude",
+      });
+      mockFetches();
+      mockParser.extractArticleList.mockReturnValue([
+        { ...mockArticle, uid: "2", retracted: true },
+      ]);
+
+      const [result] = await wrapper.getByIds(["2"]);
+
+      expect(result).toMatchObject({ uid: "2", retracted: true });
+    });
+
+    it("should not fetch anything for an empty list", async () => {
+      mockFetches();
+
+      expect(await wrapper.getByIds([])).toEqual([]);
+      expect(mockHttpClient.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getDocsByIds", () => {
+    it("should return Documents in input order with not-found entries", async () => {
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch.mockResolvedValue({
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any);
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
+      const mockDocument = {
+        pageContent: "Test content",
+        metadata: { uid: "12345" },
+      };
+      mockParser.toDocument.mockReturnValue(mockDocument as any);
+
+      const results = await wrapper.getDocsByIds(["99999", "12345"]);
+
+      expect(results).toEqual([
+        { kind: "not-found", uid: "99999" },
+        mockDocument,
+      ]);
+      expect(mockParser.toDocument).toHaveBeenCalledWith(mockArticle);
+    });
+  });
+
+  describe("findSimilar", () => {
+    const linkResponse = {
+      linksets: [
+        {
+          dbfrom: "pubmed",
+          ids: ["12345"],
+          linksetdbs: [
+            {
+              dbto: "pubmed",
+              linkname: "pubmed_pubmed",
+              links: [
+                { id: "12345", score: "99999999" },
+                { id: "333", score: "5000" },
+                { id: "111", score: "90000" },
+                { id: "222", score: "70000" },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const mockSimilar = (response: object = linkResponse) => {
+      mockUrlBuilder.buildLinkUrl.mockReturnValue("link-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch.mockImplementation(
+        async (url: string) =>
+          (url === "link-url"
+            ? { json: jest.fn().mockResolvedValue(response) }
+            : { text: jest.fn().mockResolvedValue("<xml>test</xml>") }) as any
+      );
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockImplementation((_xml, uids = []) =>
+        uids.map((uid) => ({ ...mockArticle, uid }))
+      );
+    };
+
+    it("should return similar articles with scores, most similar first", async () => {
+      mockSimilar();
+
+      const results = await wrapper.findSimilar("12345", { limit: 5 });
+
+      expect(results.map(({ score, article }) => [article.uid, score])).toEqual(
+        [
+          ["111", 90000],
+          ["222", 70000],
+          ["333", 5000],
+        ]
+      );
+      expect(mockUrlBuilder.buildLinkUrl).toHaveBeenCalledWith(
+        ["12345"],
+        "pubmed_pubmed",
+        "neighbor_score"
+      );
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenCalledWith([
+        "111",
+        "222",
+        "333",
+      ]);
+    });
+
+    it("should apply the limit, defaulting to topKResults", async () => {
+      mockSimilar();
+
+      const results = await wrapper.findSimilar("12345");
+
+      expect(results.map(({ article }) => article.uid)).toEqual(["111", "222"]);
+    });
+
+    it("should drop articles below the minimum score", async () => {
+      mockSimilar();
+
+      const results = await wrapper.findSimilar("12345", {
+        limit: 5,
+        minScore: 60000,
+      });
+
+      expect(results.map(({ article }) => article.uid)).toEqual(["111", "222"]);
+    });
+
+    it("should return an empty list when there are no similar articles", async () => {
+      mockSimilar({ linksets: [{ dbfrom: "pubmed", ids: ["12345"] }] });
+
+      expect(await wrapper.findSimilar("12345")).toEqual([]);
+      expect(mockUrlBuilder.buildFetchByIdsUrl).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid PubMed IDs without a request", async () => {
+      await expect(wrapper.findSimilar("covid")).rejects.toThrow(
+        'Invalid PubMed ID "covid"'
+      );
+      expect(mockHttpClient.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw the error reported by ELink", async () => {
+      mockSimilar({ ERROR: "Invalid uid 0" });
+
+      await expect(wrapper.findSimilar("0")).rejects.toThrow(
+        "PubMed link error: Invalid uid 0"
+      );
+    });
+
+    it("should format similar articles with their scores in runSimilar", async () => {
+      mockSimilar();
+
+      const result = await wrapper.runSimilar("12345", { limit: 1 });
+
+      expect(result).toMatch(/^Similarity Score: 90000\nPublished: 2024-10-15/);
+      expect(result).toContain("Title: Test Article");
+    });
+
+    it("should return an error message from runSimilar", async () => {
+      const result = await wrapper.runSimilar("covid");
+
+      expect(result).toBe('PubMed exception: Error: Invalid PubMed ID "covid"');
+    });
+  });
+
+  describe("citation links", () => {
+    /**
+     * Simulate ELink over a citation graph given as citing -> cited PMIDs,
+     * answering with one link set per requested ID.
+     * Link URLs carry their parameters as JSON.
+     */
+    const mockCitationGraph = (citations: Record<string, string[]>) => {
+      mockUrlBuilder.buildLinkUrl.mockImplementation(
+        (uids, linkName, command) => JSON.stringify({ uids, linkName, command })
+      );
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+      mockHttpClient.fetch.mockImplementation(async (url: string) => {
+        if (url === "fetch-url") {
+          return {
+            text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+          } as any;
+        }
+        const { uids, linkName } = JSON.parse(url);
+        const linksOf = (uid: string) =>
+          linkName === "pubmed_pubmed_refs"
+            ? (citations[uid] ?? [])
+            : Object.keys(citations).filter((citing) =>
+                citations[citing].includes(uid)
+              );
+        return {
+          json: jest.fn().mockResolvedValue({
+            linksets: uids.map((uid: string) => ({
+              dbfrom: "pubmed",
+              ids: [uid],
+              linksetdbs: linksOf(uid).length
+                ? [{ dbto: "pubmed", linkname: linkName, links: linksOf(uid) }]
+                : [],
+            })),
+          }),
+        } as any;
+      });
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockImplementation((_xml, uids = []) =>
+        uids.map((uid) => ({ ...mockArticle, uid }))
+      );
+    };
+
+    const collect = async (iterator: AsyncIterable<PubMedCitationEdge>) => {
+      const edges: string[] = [];
+      for await (const edge of iterator) {
+        edges.push(`${edge.citing}>${edge.cited}@${edge.depth}`);
+      }
+      return edges;
+    };
+
+    it("should retrieve the articles citing an article", async () => {
+      mockCitationGraph({ "200": ["100"], "300": ["100"], "400": ["999"] });
+
+      const results = await wrapper.getCitedBy("100");
+
+      expect(results.map((article) => article.uid)).toEqual(["200", "300"]);
+      expect(mockUrlBuilder.buildLinkUrl).toHaveBeenCalledWith(
+        ["100"],
+        "pubmed_pubmed_citedin",
+        "neighbor"
+      );
+    });
+
+    it("should retrieve the articles cited by an article", async () => {
+      mockCitationGraph({ "100": ["10", "20", "30"] });
+
+      const results = await wrapper.getCitedReferences("100", { limit: 2 });
+
+      expect(results.map((article) => article.uid)).toEqual(["10", "20"]);
+      expect(mockUrlBuilder.buildLinkUrl).toHaveBeenCalledWith(
+        ["100"],
+        "pubmed_pubmed_refs",
+        "neighbor"
+      );
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenCalledWith([
+        "10",
+        "20",
+      ]);
+    });
+
+    it("should reject invalid PubMed IDs", async () => {
+      await expect(wrapper.getCitedBy("abc")).rejects.toThrow(
+        'Invalid PubMed ID "abc"'
+      );
+    });
+
+    it("should crawl both directions one hop by default", async () => {
+      mockCitationGraph({
+        "100": ["10", "20"],
+        "200": ["100"],
+        "10": ["1"],
+      });
+
+      const edges = await collect(wrapper.crawlCitations(["100"]));
+
+      expect(edges).toEqual(["100>10@1", "100>20@1", "200>100@1"]);
+    });
+
+    it("should follow links over several hops without repeating nodes or edges", async () => {
+      mockCitationGraph({
+        "100": ["10", "20"],
+        "10": ["1", "20"],
+        "20": ["1"],
+      });
+
+      const edges = await collect(
+        wrapper.crawlCitations(["100"], { depth: 2, direction: "references" })
+      );
+
+      expect(edges).toEqual([
+        "100>10@1",
+        "100>20@1",
+        "10>1@2",
+        "10>20@2",
+        "20>1@2",
+      ]);
+      // Every node is expanded once: 100, then 10 and 20 in one request
+      expect(mockUrlBuilder.buildLinkUrl.mock.calls).toEqual([
+        [["100"], "pubmed_pubmed_refs", "neighbor"],
+        [["10", "20"], "pubmed_pubmed_refs", "neighbor"],
+      ]);
+    });
+
+    it("should request links of a whole hop with one request per link name", async () => {
+      mockCitationGraph({
+        "100": ["10", "20"],
+        "200": ["100"],
+        "10": ["1"],
+        "300": ["20"],
+      });
+
+      const edges = await collect(
+        wrapper.crawlCitations(["100"], { depth: 2 })
+      );
+
+      expect(edges).toEqual([
+        "100>10@1",
+        "100>20@1",
+        "200>100@1",
+        "10>1@2",
+        "300>20@2",
+      ]);
+      expect(mockUrlBuilder.buildLinkUrl.mock.calls).toEqual([
+        [["100"], "pubmed_pubmed_refs", "neighbor"],
+        [["100"], "pubmed_pubmed_citedin", "neighbor"],
+        [["10", "20", "200"], "pubmed_pubmed_refs", "neighbor"],
+        [["10", "20", "200"], "pubmed_pubmed_citedin", "neighbor"],
+      ]);
+    });
+
+    it("should follow cited-by links only", async () => {
+      mockCitationGraph({ "100": ["10"], "200": ["100"], "300": ["200"] });
+
+      const edges = await collect(
+        wrapper.crawlCitations(["100"], { depth: 2, direction: "citedBy" })
+      );
+
+      expect(edges).toEqual(["200>100@1", "300>200@2"]);
+    });
+
+    it("should deduplicate citations found from both ends", async () => {
+      mockCitationGraph({ "100": ["10"] });
+
+      const edges = await collect(wrapper.crawlCitations(["100", "10"]));
+
+      expect(edges).toEqual(["100>10@1"]);
+    });
+
+    it("should stop adding nodes at maxNodes", async () => {
+      mockCitationGraph({ "100": ["10", "20", "30"], "10": ["1"] });
+
+      const edges = await collect(
+        wrapper.crawlCitations(["100"], {
+          depth: 3,
+          maxNodes: 3,
+          direction: "references",
+        })
+      );
+
+      expect(edges).toEqual(["100>10@1", "100>20@1"]);
+    });
+  });
+
+  describe("getReferences", () => {
+    const citingArticle: PubMedArticleMetadata = {
+      ...mockArticle,
+      references: [
+        { citation: "Cited work B", pmid: "222" },
+        { citation: "Unindexed work" },
+        { citation: "Cited work A", pmid: "111" },
+        { citation: "Duplicate of B", pmid: "222" },
+      ],
+    };
+    const referenceA = { ...mockArticle, uid: "111", Title: "Work A" };
+    const referenceB = { ...mockArticle, uid: "222", Title: "Work B" };
+
+    const mockFetches = () => {
+      mockUrlBuilder.buildFetchByIdsUrl.mockImplementation(
+        (uids) => `fetch-url?id=${uids.join(",")}`
+      );
+      mockHttpClient.fetch.mockResolvedValue({
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any);
+      mockParser.parseXML.mockReturnValue({} as any);
+    };
+
+    it("should fetch the referenced articles in one batch, in reference order", async () => {
+      mockFetches();
+      mockParser.extractArticleList
+        .mockReturnValueOnce([citingArticle])
+        .mockReturnValueOnce([referenceB, referenceA]);
+
+      const results = await wrapper.getReferences("12345");
+
+      expect(results.map((article) => article.uid)).toEqual(["222", "111"]);
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenNthCalledWith(1, [
+        "12345",
+      ]);
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenNthCalledWith(2, [
+        "222",
+        "111",
+      ]);
+      expect(mockParser.extractArticleList).toHaveBeenLastCalledWith({}, [
+        "222",
+        "111",
+      ]);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should split large reference lists into batches of 200", async () => {
+      mockFetches();
+      const manyReferences = Array.from({ length: 450 }, (_, index) => ({
+        pmid: String(index + 1),
+      }));
+      mockParser.extractArticleList
+        .mockReturnValueOnce([{ ...mockArticle, references: manyReferences }])
+        .mockReturnValue([]);
+
+      await wrapper.getReferences("12345");
+
+      const batches = mockUrlBuilder.buildFetchByIdsUrl.mock.calls
+        .slice(1)
+        .map(([uids]) => uids.length);
+      expect(batches).toEqual([200, 200, 50]);
+    });
+
+    it("should return an empty list without fetching when there are no PMIDs", async () => {
+      mockFetches();
+      mockParser.extractArticleList.mockReturnValueOnce([mockArticle]);
+
+      const results = await wrapper.getReferences("12345");
+
+      expect(results).toEqual([]);
+      expect(mockHttpClient.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw when the citing article is not found", async () => {
+      mockFetches();
+      mockParser.extractArticleList.mockReturnValueOnce([]);
+
+      await expect(wrapper.getReferences("99999")).rejects.toThrow(
+        "Article 99999 not found in PubMed"
+      );
+    });
+
+    it("should trim the PMID before fetching", async () => {
+      mockFetches();
+      mockParser.extractArticleList.mockReturnValueOnce([mockArticle]);
+
+      await wrapper.getReferences(" 12345 ");
+
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenCalledWith(["12345"]);
+    });
+
+    it("should reject invalid PMIDs without a request", async () => {
+      await expect(wrapper.getReferences("abc")).rejects.toThrow(
+        'Invalid PubMed ID "abc"'
+      );
+      expect(mockHttpClient.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("countByFundingAgency", () => {
+    it("should count articles per agency, most frequent first", () => {
+      const articles: PubMedArticleMetadata[] = [
+        {
+          ...mockArticle,
+          uid: "1",
+          grants: [
+            { grantId: "R01 A", agency: "NCI NIH HHS" },
+            { grantId: "R01 B", agency: "NCI NIH HHS" },
+            { agency: "Wellcome Trust" },
+          ],
+        },
+        {
+          ...mockArticle,
+          uid: "2",
+          grants: [{ agency: "Wellcome Trust" }, { grantId: "no-agency" }],
+        },
+        { ...mockArticle, uid: "3", grants: [{ agency: "Wellcome Trust" }] },
+        { ...mockArticle, uid: "4", grants: [] },
+      ];
+
+      const counts = wrapper.countByFundingAgency(articles);
+
+      expect(counts).toEqual({ "Wellcome Trust": 3, "NCI NIH HHS": 1 });
+      expect(Object.keys(counts)).toEqual(["Wellcome Trust", "NCI NIH HHS"]);
+    });
+
+    it("should return an empty object for articles without grants", () => {
+      expect(wrapper.countByFundingAgency([mockArticle])).toEqual({});
+    });
+  });
+
+  describe("Error handling", () => {
+    it("should propagate HTTP client errors in load", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockRejectedValue(new Error("HTTP error"));
+
+      await expect(wrapper.load("test")).rejects.toThrow("HTTP error");
+    });
+
+    it("should propagate parser errors", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>invalid</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValueOnce(mockFetchResponse);
+
+      mockParser.parseXML.mockImplementation(() => {
+        throw new Error("Parse error");
+      });
+
+      await expect(wrapper.load("test")).rejects.toThrow("Parse error");
+    });
+  });
+
+  describe("URL building", () => {
+    it("should call URL builder with correct parameters for search", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: [],
+          },
+        }),
+      } as any;
+
+      mockHttpClient.fetch.mockResolvedValueOnce(mockSearchResponse);
+
+      await wrapper.load("covid-19 vaccine");
+
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
+        "covid-19 vaccine",
+        2,
+        {}
+      );
+    });
+
+    it("should pass the default sort order and date filters to the search", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        sort: "pub_date",
+        datetype: "edat",
+        reldate: 30,
+      });
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue({
+          esearchresult: { webenv: "test-webenv", idlist: [] },
+        }),
+      } as any);
+
+      await wrapper.load("covid-19 vaccine");
+
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
+        "covid-19 vaccine",
+        2,
+        { sort: "pub_date", datetype: "edat", reldate: 30 }
+      );
+    });
+
+    it("should let per-call search options override the defaults", async () => {
+      wrapper = new PubMedAPIWrapper({
+        topKResults: 2,
+        email: "test@example.com",
+        sort: "pub_date",
+        reldate: 30,
+      });
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockHttpClient.fetch.mockResolvedValueOnce({
+        json: jest.fn().mockResolvedValue({
+          esearchresult: { webenv: "test-webenv", idlist: [] },
+        }),
+      } as any);
+
+      await wrapper.run("covid-19 vaccine", {
+        sort: "Author",
+        reldate: 7,
+        mindate: "2024/01/01",
+        maxdate: "2024/12/31",
+      });
+
+      expect(mockUrlBuilder.buildSearchUrl).toHaveBeenCalledWith(
+        "covid-19 vaccine",
+        2,
+        {
+          sort: "Author",
+          reldate: 7,
+          mindate: "2024/01/01",
+          maxdate: "2024/12/31",
+        }
+      );
+    });
+
+    it("should fetch search results from the History server", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildHistoryFetchUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv-123",
+            querykey: "1",
+            idlist: ["98765", "43210"],
           },
         }),
       } as any;
@@ -506,14 +2492,49 @@ describe("PubMedAPIWrapper", () => {
         .mockResolvedValueOnce(mockFetchResponse);
 
       mockParser.parseXML.mockReturnValue({} as any);
-      mockParser.extractArticleMetadata.mockReturnValue(mockArticle);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
 
       await wrapper.load("test");
 
-      expect(mockUrlBuilder.buildFetchUrl).toHaveBeenCalledWith(
-        "98765",
-        "test-webenv-123"
+      expect(mockUrlBuilder.buildHistoryFetchUrl).toHaveBeenCalledWith(
+        "test-webenv-123",
+        "1",
+        0,
+        2
       );
+      expect(mockParser.extractArticleList).toHaveBeenCalledWith({}, [
+        "98765",
+        "43210",
+      ]);
+    });
+
+    it("should fetch by ID when the search returns no query key", async () => {
+      mockUrlBuilder.buildSearchUrl.mockReturnValue("search-url");
+      mockUrlBuilder.buildFetchByIdsUrl.mockReturnValue("fetch-url");
+
+      const mockSearchResponse = {
+        json: jest.fn().mockResolvedValue({
+          esearchresult: {
+            webenv: "test-webenv-123",
+            idlist: ["98765"],
+          },
+        }),
+      } as any;
+
+      const mockFetchResponse = {
+        text: jest.fn().mockResolvedValue("<xml>test</xml>"),
+      } as any;
+
+      mockHttpClient.fetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValueOnce(mockFetchResponse);
+
+      mockParser.parseXML.mockReturnValue({} as any);
+      mockParser.extractArticleList.mockReturnValue([mockArticle]);
+
+      await wrapper.load("test");
+
+      expect(mockUrlBuilder.buildFetchByIdsUrl).toHaveBeenCalledWith(["98765"]);
     });
   });
 });
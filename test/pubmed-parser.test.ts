@@ -4,7 +4,11 @@
  */
 
 import { PubMedParser } from "../src/pubmed-parser.js";
-import { PubMedXMLResponse } from "../src/types.js";
+import {
+  PubMedArticleMetadata,
+  PubMedJournalArticleMetadata,
+  PubMedXMLResponse,
+} from "../src/types.js";
 
 describe("PubMedParser", () => {
   let parser: PubMedParser;
@@ -257,18 +261,1432 @@ describe("PubMedParser", () => {
 
       const result = parser.extractArticleMetadata("12345", xmlResponse);
 
-      expect(result.Title).toBe('{"AuthorList":"Test Author"}');
+      expect(result.Title).toBe("Test Author");
+    });
+  });
+
+  describe("extractArticleMetadata - inline markup", () => {
+    const xmlText = `
+      <PubmedArticleSet>
+        <PubmedArticle>
+          <MedlineCitation>
+            <Article>
+              <ArticleTitle>Role of <i>BRCA1</i> in Ca<sup>2+</sup> and H<sub>2</sub>O signalling.</ArticleTitle>
+              <Abstract>
+                <AbstractText Label="BACKGROUND">The <i>TP53</i> gene &amp; <b>p21</b>.</AbstractText>
+                <AbstractText Label="RESULTS">CO<sub>2</sub> levels rose.</AbstractText>
+              </Abstract>
+            </Article>
+          </MedlineCitation>
+        </PubmedArticle>
+      </PubmedArticleSet>
+    `;
+
+    it("should rebuild plain text in document order by default", () => {
+      const result = parser.extractArticleMetadata(
+        "12345",
+        parser.parseXML(xmlText)
+      );
+
+      expect(result.Title).toBe("Role of BRCA1 in Ca2+ and H2O signalling.");
+      expect(result.Summary).toBe(
+        "BACKGROUND: The TP53 gene & p21.\nRESULTS: CO2 levels rose."
+      );
+    });
+
+    it("should render Markdown when configured", () => {
+      const markdownParser = new PubMedParser({ textFormat: "markdown" });
+
+      const result = markdownParser.extractArticleMetadata(
+        "12345",
+        markdownParser.parseXML(xmlText)
+      );
+
+      expect(result.Title).toBe(
+        "Role of *BRCA1* in Ca^2+^ and H~2~O signalling."
+      );
+      expect(result.Summary).toContain("The *TP53* gene & **p21**.");
+    });
+
+    it("should keep the original HTML when configured", () => {
+      const htmlParser = new PubMedParser({ textFormat: "html" });
+
+      const result = htmlParser.extractArticleMetadata(
+        "12345",
+        htmlParser.parseXML(xmlText)
+      );
+
+      expect(result.Title).toBe(
+        "Role of <i>BRCA1</i> in Ca<sup>2+</sup> and H<sub>2</sub>O signalling."
+      );
+      expect(result.Summary).toContain("CO<sub>2</sub> levels rose.");
+    });
+
+    it("should render a single abstract with inline markup", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Plain title</ArticleTitle>
+                <Abstract>
+                  <AbstractText>Infection with <i>Staphylococcus aureus</i> &lt;5 days.</AbstractText>
+                </Abstract>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.Title).toBe("Plain title");
+      expect(result.Summary).toBe(
+        "Infection with Staphylococcus aureus <5 days."
+      );
+    });
+  });
+
+  describe("extractArticleMetadata - authors", () => {
+    it("should extract a single author with affiliation and ORCID", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Single Author Article</ArticleTitle>
+                <AuthorList CompleteYN="Y">
+                  <Author ValidYN="Y">
+                    <LastName>Smith</LastName>
+                    <ForeName>Jane A</ForeName>
+                    <Initials>JA</Initials>
+                    <Identifier Source="ORCID">https://orcid.org/0000-0002-1825-0097</Identifier>
+                    <AffiliationInfo>
+                      <Affiliation>Department of Medicine, Test University.</Affiliation>
+                    </AffiliationInfo>
+                  </Author>
+                </AuthorList>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.authors).toEqual([
+        {
+          lastName: "Smith",
+          foreName: "Jane A",
+          initials: "JA",
+          orcid: "0000-0002-1825-0097",
+          affiliations: ["Department of Medicine, Test University."],
+          equalContrib: false,
+        },
+      ]);
+    });
+
+    it("should extract multiple authors including collective names", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Multi Author Article</ArticleTitle>
+                <AuthorList CompleteYN="Y">
+                  <Author ValidYN="Y" EqualContrib="Y">
+                    <LastName>Doe</LastName>
+                    <ForeName>John</ForeName>
+                    <Initials>J</Initials>
+                    <AffiliationInfo>
+                      <Affiliation>First Institute.</Affiliation>
+                    </AffiliationInfo>
+                    <AffiliationInfo>
+                      <Affiliation>Second Institute.</Affiliation>
+                    </AffiliationInfo>
+                  </Author>
+                  <Author ValidYN="Y" EqualContrib="Y">
+                    <LastName>Roe</LastName>
+                    <ForeName>Richard</ForeName>
+                    <Initials>R</Initials>
+                  </Author>
+                  <Author ValidYN="Y">
+                    <CollectiveName>COVID-19 Study Group</CollectiveName>
+                  </Author>
+                </AuthorList>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.authors).toHaveLength(3);
+      expect(result.authors[0].affiliations).toEqual([
+        "First Institute.",
+        "Second Institute.",
+      ]);
+      expect(result.authors[0].equalContrib).toBe(true);
+      expect(result.authors[1].lastName).toBe("Roe");
+      expect(result.authors[1].affiliations).toEqual([]);
+      expect(result.authors[2]).toEqual({
+        collectiveName: "COVID-19 Study Group",
+        affiliations: [],
+        equalContrib: false,
+      });
+    });
+
+    it("should skip invalid authors and book editors", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              AuthorList: [
+                {
+                  "@Type": "authors",
+                  Author: [
+                    { LastName: "Valid", Initials: "V" },
+                    { "@ValidYN": "N", LastName: "Invalid", Initials: "I" },
+                  ],
+                },
+                {
+                  "@Type": "editors",
+                  Author: { LastName: "Editor", Initials: "E" },
+                },
+              ],
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.authors.map((author) => author.lastName)).toEqual([
+        "Valid",
+      ]);
+    });
+
+    it("should return an empty list when no authors are present", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                ArticleTitle: "Anonymous Article",
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.authors).toEqual([]);
+    });
+  });
+
+  describe("extractArticleMetadata - journal", () => {
+    it("should extract journal citation details", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article PubModel="Print-Electronic">
+                <Journal>
+                  <ISSN IssnType="Electronic">1533-4406</ISSN>
+                  <JournalIssue CitedMedium="Internet">
+                    <Volume>383</Volume>
+                    <Issue>27</Issue>
+                  </JournalIssue>
+                  <Title>The New England journal of medicine</Title>
+                  <ISOAbbreviation>N Engl J Med</ISOAbbreviation>
+                </Journal>
+                <ArticleTitle>Journal Article</ArticleTitle>
+                <Pagination>
+                  <StartPage>2603</StartPage>
+                  <EndPage>2615</EndPage>
+                  <MedlinePgn>2603-2615</MedlinePgn>
+                </Pagination>
+                <ELocationID EIdType="doi" ValidYN="Y">10.1056/NEJMoa2034577</ELocationID>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata(
+        "12345",
+        xmlResponse
+      ) as PubMedJournalArticleMetadata;
+
+      expect(result.kind).toBe("journal");
+      expect(result.journal).toEqual({
+        title: "The New England journal of medicine",
+        isoAbbreviation: "N Engl J Med",
+        issnElectronic: "1533-4406",
+        volume: "383",
+        issue: "27",
+        pages: "2603-2615",
+        startPage: "2603",
+        endPage: "2615",
+        eLocationIds: [{ type: "doi", value: "10.1056/NEJMoa2034577" }],
+      });
+    });
+
+    it("should handle multiple ISSNs and electronic locations", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                Journal: {
+                  ISSN: [
+                    { "@IssnType": "Print", "#text": "0028-4793" },
+                    { "@IssnType": "Electronic", "#text": "1533-4406" },
+                  ],
+                  Title: "Online Journal",
+                },
+                ELocationID: [
+                  { "@EIdType": "pii", "@ValidYN": "Y", "#text": "e123" },
+                  { "@EIdType": "doi", "@ValidYN": "N", "#text": "10.1/bad" },
+                ],
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata(
+        "12345",
+        xmlResponse
+      ) as PubMedJournalArticleMetadata;
+
+      expect(result.journal?.issnPrint).toBe("0028-4793");
+      expect(result.journal?.issnElectronic).toBe("1533-4406");
+      expect(result.journal?.pages).toBeUndefined();
+      expect(result.journal?.eLocationIds).toEqual([
+        { type: "pii", value: "e123" },
+      ]);
+    });
+
+    it("should omit journal details when no journal is present", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              ArticleTitle: "Book Chapter",
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result).not.toHaveProperty("journal");
+    });
+  });
+
+  describe("extractArticleMetadata - books", () => {
+    const geneReviewsXml = `
+      <PubmedArticleSet>
+        <PubmedBookArticle>
+          <BookDocument>
+            <PMID Version="1">20301425</PMID>
+            <ArticleIdList>
+              <ArticleId IdType="bookaccession">NBK1247</ArticleId>
+            </ArticleIdList>
+            <Book>
+              <Publisher>
+                <PublisherName>University of Washington, Seattle</PublisherName>
+                <PublisherLocation>Seattle (WA)</PublisherLocation>
+              </Publisher>
+              <BookTitle book="gene">GeneReviews<sup>®</sup></BookTitle>
+              <PubDate><Year>1993</Year></PubDate>
+              <AuthorList Type="editors">
+                <Author><LastName>Adam</LastName><ForeName>Margaret P</ForeName><Initials>MP</Initials></Author>
+                <Author><LastName>Feldman</LastName><ForeName>Jerry</ForeName><Initials>J</Initials></Author>
+              </AuthorList>
+              <Edition>2nd</Edition>
+              <Medium>Internet</Medium>
+            </Book>
+            <LocationLabel Type="chapter">Chapter 12</LocationLabel>
+            <ArticleTitle book="gene" part="brca1">BRCA1- and BRCA2-Associated Hereditary Breast and Ovarian Cancer</ArticleTitle>
+            <AuthorList Type="authors">
+              <Author><LastName>Petrucelli</LastName><ForeName>Nancie</ForeName><Initials>N</Initials></Author>
+            </AuthorList>
+            <PublicationType UI="D016454">Review</PublicationType>
+            <Abstract><AbstractText Label="CLINICAL CHARACTERISTICS">Carriers have an increased risk.</AbstractText></Abstract>
+            <Sections>
+              <Section>
+                <SectionTitle book="gene" part="brca1" sec="brca1.Summary">Summary</SectionTitle>
+              </Section>
+              <Section>
+                <SectionTitle book="gene" part="brca1" sec="brca1.Diagnosis">Diagnosis</SectionTitle>
+                <Section>
+                  <SectionTitle book="gene" part="brca1" sec="brca1.Suggestive_Findings">Suggestive Findings</SectionTitle>
+                </Section>
+              </Section>
+            </Sections>
+            <ContributionDate><Year>1998</Year><Month>09</Month><Day>04</Day></ContributionDate>
+          </BookDocument>
+          <PubmedBookData>
+            <ArticleIdList>
+              <ArticleId IdType="pubmed">20301425</ArticleId>
+            </ArticleIdList>
+          </PubmedBookData>
+        </PubmedBookArticle>
+      </PubmedArticleSet>
+    `;
+
+    it("should extract book citation details of a chapter", () => {
+      const result = parser.extractArticleMetadata(
+        "20301425",
+        parser.parseXML(geneReviewsXml)
+      );
+
+      expect(result.kind).toBe("book");
+      expect(result).not.toHaveProperty("journal");
+      expect(result.Title).toBe(
+        "BRCA1- and BRCA2-Associated Hereditary Breast and Ovarian Cancer"
+      );
+      expect(result.authors.map((author) => author.lastName)).toEqual([
+        "Petrucelli",
+      ]);
+      expect(result.publicationTypes).toEqual([
+        { name: "Review", ui: "D016454" },
+      ]);
+      expect(result.ids.other).toEqual({ bookaccession: "NBK1247" });
+      if (result.kind !== "book") return;
+      expect(result.book).toEqual({
+        title: "GeneReviews®",
+        publisher: "University of Washington, Seattle",
+        publisherLocation: "Seattle (WA)",
+        editors: [
+          {
+            lastName: "Adam",
+            foreName: "Margaret P",
+            initials: "MP",
+            affiliations: [],
+            equalContrib: false,
+          },
+          {
+            lastName: "Feldman",
+            foreName: "Jerry",
+            initials: "J",
+            affiliations: [],
+            equalContrib: false,
+          },
+        ],
+        edition: "2nd",
+        locationLabel: "Chapter 12",
+        sectionTitles: ["Summary", "Diagnosis", "Suggestive Findings"],
+      });
+    });
+
+    it("should use the book title for records of a whole book", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              Book: { BookTitle: "Holland-Frei Cancer Medicine" },
+            },
+          },
+        },
+      });
+
+      expect(result.kind).toBe("book");
+      expect(result.Title).toBe("Holland-Frei Cancer Medicine");
+    });
+
+    it("should add a Bookshelf URL to book Documents", () => {
+      const doc = parser.toDocument(
+        parser.extractArticleMetadata(
+          "20301425",
+          parser.parseXML(geneReviewsXml)
+        )
+      );
+
+      expect(doc.metadata.kind).toBe("book");
+      expect(doc.metadata.book.title).toBe("GeneReviews®");
+      expect(doc.metadata.bookshelfUrl).toBe(
+        "https://www.ncbi.nlm.nih.gov/books/NBK1247/"
+      );
+    });
+
+    it("should mark journal articles with the journal kind", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: { MedlineCitation: { Article: {} } },
+        },
+      });
+
+      expect(result.kind).toBe("journal");
+      expect(result).not.toHaveProperty("book");
+    });
+  });
+
+  describe("extractArticleMetadata - languages", () => {
+    const germanArticleXml = `
+      <PubmedArticleSet>
+        <PubmedArticle>
+          <MedlineCitation>
+            <PMID>12345</PMID>
+            <Article>
+              <ArticleTitle>[Treatment of <i>Helicobacter pylori</i> infection].</ArticleTitle>
+              <Abstract>
+                <AbstractText Label="BACKGROUND">English background.</AbstractText>
+                <AbstractText Label="RESULTS">English results.</AbstractText>
+              </Abstract>
+              <Language>ger</Language>
+              <Language>eng</Language>
+              <VernacularTitle>Behandlung der <i>Helicobacter-pylori</i>-Infektion.</VernacularTitle>
+            </Article>
+            <OtherAbstract Type="Publisher" Language="ger">
+              <AbstractText Label="HINTERGRUND">Deutscher Hintergrund.</AbstractText>
+              <AbstractText Label="ERGEBNISSE">Deutsche Ergebnisse.</AbstractText>
+            </OtherAbstract>
+            <OtherAbstract Type="plain-language-summary" Language="eng">
+              <AbstractText>Plain summary.</AbstractText>
+            </OtherAbstract>
+          </MedlineCitation>
+        </PubmedArticle>
+      </PubmedArticleSet>
+    `;
+
+    it("should extract languages, vernacular title and other abstracts", () => {
+      const result = parser.extractArticleMetadata(
+        "12345",
+        parser.parseXML(germanArticleXml)
+      );
+
+      expect(result.languages).toEqual(["ger", "eng"]);
+      expect(result.Title).toBe(
+        "[Treatment of Helicobacter pylori infection]."
+      );
+      expect(result.vernacularTitle).toBe(
+        "Behandlung der Helicobacter-pylori-Infektion."
+      );
+      expect(result.otherAbstracts).toEqual([
+        {
+          language: "ger",
+          type: "Publisher",
+          sections: [
+            { label: "HINTERGRUND", text: "Deutscher Hintergrund." },
+            { label: "ERGEBNISSE", text: "Deutsche Ergebnisse." },
+          ],
+          text: "HINTERGRUND: Deutscher Hintergrund.\nERGEBNISSE: Deutsche Ergebnisse.",
+        },
+        {
+          language: "eng",
+          type: "plain-language-summary",
+          sections: [{ text: "Plain summary." }],
+          text: "Plain summary.",
+        },
+      ]);
+    });
+
+    it("should omit the vernacular title of English articles", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: { Article: { Language: "eng" } },
+          },
+        },
+      });
+
+      expect(result.languages).toEqual(["eng"]);
+      expect(result).not.toHaveProperty("vernacularTitle");
+      expect(result.otherAbstracts).toEqual([]);
+    });
+
+    it("should use the main abstract as Document content by default", () => {
+      const doc = parser.toDocument(
+        parser.extractArticleMetadata(
+          "12345",
+          parser.parseXML(germanArticleXml)
+        )
+      );
+
+      expect(doc.pageContent).toBe(
+        "BACKGROUND: English background.\nRESULTS: English results."
+      );
+      expect(doc.metadata).not.toHaveProperty("abstractLanguage");
+    });
+
+    it("should use the abstract in the first preferred language", () => {
+      const germanParser = new PubMedParser({
+        preferredLanguages: ["GER", "eng"],
+      });
+      const doc = germanParser.toDocument(
+        germanParser.extractArticleMetadata(
+          "12345",
+          germanParser.parseXML(germanArticleXml)
+        )
+      );
+
+      expect(doc.pageContent).toBe(
+        "HINTERGRUND: Deutscher Hintergrund.\nERGEBNISSE: Deutsche Ergebnisse."
+      );
+      expect(doc.metadata.abstractLanguage).toBe("ger");
+    });
+
+    it("should keep the main abstract when English is preferred first", () => {
+      const englishParser = new PubMedParser({
+        preferredLanguages: ["eng", "ger"],
+      });
+      const doc = englishParser.toDocument(
+        englishParser.extractArticleMetadata(
+          "12345",
+          englishParser.parseXML(germanArticleXml)
+        )
+      );
+
+      expect(doc.pageContent).toContain("English background.");
+    });
+
+    it("should fall back to the main abstract when no preferred language matches", () => {
+      const frenchParser = new PubMedParser({ preferredLanguages: ["fre"] });
+      const doc = frenchParser.toDocument(
+        frenchParser.extractArticleMetadata(
+          "12345",
+          frenchParser.parseXML(germanArticleXml)
+        )
+      );
+
+      expect(doc.pageContent).toContain("English background.");
+      expect(doc.metadata).not.toHaveProperty("abstractLanguage");
+    });
+  });
+
+  describe("extractArticleMetadata - MeSH headings", () => {
+    it("should extract descriptors with qualifiers and major-topic flags", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>MeSH Article</ArticleTitle>
+              </Article>
+              <MeshHeadingList>
+                <MeshHeading>
+                  <DescriptorName UI="D000086663" MajorTopicYN="Y">COVID-19 Vaccines</DescriptorName>
+                  <QualifierName UI="Q000009" MajorTopicYN="N">adverse effects</QualifierName>
+                  <QualifierName UI="Q000627" MajorTopicYN="N">therapeutic use</QualifierName>
+                </MeshHeading>
+                <MeshHeading>
+                  <DescriptorName UI="D000086382" MajorTopicYN="N">COVID-19</DescriptorName>
+                  <QualifierName UI="Q000517" MajorTopicYN="Y">prevention &amp; control</QualifierName>
+                </MeshHeading>
+                <MeshHeading>
+                  <DescriptorName UI="D006801" MajorTopicYN="N">Humans</DescriptorName>
+                </MeshHeading>
+              </MeshHeadingList>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.meshHeadings).toEqual([
+        {
+          descriptor: "COVID-19 Vaccines",
+          descriptorUi: "D000086663",
+          majorTopic: true,
+          qualifiers: [
+            { name: "adverse effects", ui: "Q000009", majorTopic: false },
+            { name: "therapeutic use", ui: "Q000627", majorTopic: false },
+          ],
+        },
+        {
+          descriptor: "COVID-19",
+          descriptorUi: "D000086382",
+          majorTopic: true,
+          qualifiers: [
+            { name: "prevention & control", ui: "Q000517", majorTopic: true },
+          ],
+        },
+        {
+          descriptor: "Humans",
+          descriptorUi: "D006801",
+          majorTopic: false,
+          qualifiers: [],
+        },
+      ]);
+    });
+
+    it("should handle a single heading without attributes", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {},
+              MeshHeadingList: {
+                MeshHeading: { DescriptorName: "Humans" },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.meshHeadings).toEqual([
+        { descriptor: "Humans", majorTopic: false, qualifiers: [] },
+      ]);
+    });
+
+    it("should return an empty list for records without MeSH indexing", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              ArticleTitle: "Book Chapter",
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.meshHeadings).toEqual([]);
+    });
+  });
+
+  describe("extractArticleMetadata - keywords and chemicals", () => {
+    it("should extract keywords, chemicals and supplementary concepts", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Drug Safety Article</ArticleTitle>
+              </Article>
+              <ChemicalList>
+                <Chemical>
+                  <RegistryNumber>9100L32L2N</RegistryNumber>
+                  <NameOfSubstance UI="D008687">Metformin</NameOfSubstance>
+                </Chemical>
+                <Chemical>
+                  <RegistryNumber>0</RegistryNumber>
+                  <NameOfSubstance UI="D007004">Hypoglycemic Agents</NameOfSubstance>
+                </Chemical>
+              </ChemicalList>
+              <SupplMeshList>
+                <SupplMeshName Type="Disease" UI="C000657245">COVID-19</SupplMeshName>
+              </SupplMeshList>
+              <KeywordList Owner="NOTNLM">
+                <Keyword MajorTopicYN="N">diabetes</Keyword>
+                <Keyword MajorTopicYN="Y">lactic acidosis</Keyword>
+              </KeywordList>
+              <KeywordList Owner="NLM">
+                <Keyword MajorTopicYN="N">pharmacovigilance</Keyword>
+              </KeywordList>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.chemicals).toEqual([
+        { name: "Metformin", ui: "D008687", registryNumber: "9100L32L2N" },
+        { name: "Hypoglycemic Agents", ui: "D007004" },
+      ]);
+      expect(result.supplementaryConcepts).toEqual([
+        { name: "COVID-19", ui: "C000657245", type: "Disease" },
+      ]);
+      expect(result.keywords).toEqual([
+        { keyword: "diabetes", owner: "NOTNLM", majorTopic: false },
+        { keyword: "lactic acidosis", owner: "NOTNLM", majorTopic: true },
+        { keyword: "pharmacovigilance", owner: "NLM", majorTopic: false },
+      ]);
+    });
+
+    it("should handle single entries without attributes", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {},
+              KeywordList: { Keyword: "genomics" },
+              ChemicalList: {
+                Chemical: { NameOfSubstance: "Water" },
+              },
+              SupplMeshList: { SupplMeshName: "Rare Syndrome" },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.keywords).toEqual([
+        { keyword: "genomics", majorTopic: false },
+      ]);
+      expect(result.chemicals).toEqual([{ name: "Water" }]);
+      expect(result.supplementaryConcepts).toEqual([{ name: "Rare Syndrome" }]);
+    });
+
+    it("should return empty lists when nothing is indexed", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {},
+      });
+
+      expect(result.keywords).toEqual([]);
+      expect(result.chemicals).toEqual([]);
+      expect(result.supplementaryConcepts).toEqual([]);
+    });
+  });
+
+  describe("extractArticleMetadata - grants", () => {
+    it("should extract grants with agency and country", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <GrantList CompleteYN="Y">
+                  <Grant>
+                    <GrantID>R01 CA123456</GrantID>
+                    <Acronym>CA</Acronym>
+                    <Agency>NCI NIH HHS</Agency>
+                    <Country>United States</Country>
+                  </Grant>
+                  <Grant>
+                    <Agency>Wellcome Trust</Agency>
+                    <Country>United Kingdom</Country>
+                  </Grant>
+                </GrantList>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.grants).toEqual([
+        {
+          grantId: "R01 CA123456",
+          acronym: "CA",
+          agency: "NCI NIH HHS",
+          country: "United States",
+        },
+        { agency: "Wellcome Trust", country: "United Kingdom" },
+      ]);
+    });
+
+    it("should handle a single grant and missing grant lists", () => {
+      const withGrant = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                GrantList: { Grant: { GrantID: "0012345", Agency: "NSF" } },
+              },
+            },
+          },
+        },
+      });
+      const withoutGrant = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {},
+      });
+
+      expect(withGrant.grants).toEqual([{ grantId: "0012345", agency: "NSF" }]);
+      expect(withoutGrant.grants).toEqual([]);
+    });
+  });
+
+  describe("extractArticleMetadata - comments and corrections", () => {
+    it("should extract related records and detect retractions", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Retracted Article</ArticleTitle>
+              </Article>
+              <CommentsCorrectionsList>
+                <CommentsCorrections RefType="RetractionIn">
+                  <RefSource>Lancet. 2020 Jun 13;395(10240):1820</RefSource>
+                  <PMID Version="1">32511943</PMID>
+                </CommentsCorrections>
+                <CommentsCorrections RefType="ErratumIn">
+                  <RefSource>Lancet. 2020 May 30;395(10238):1686</RefSource>
+                </CommentsCorrections>
+                <CommentsCorrections RefType="CommentIn">
+                  <RefSource>Lancet. 2020 Jun 6;395(10239):e102</RefSource>
+                  <PMID Version="1">32504890</PMID>
+                </CommentsCorrections>
+              </CommentsCorrectionsList>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.commentsCorrections).toEqual([
+        {
+          refType: "RetractionIn",
+          refSource: "Lancet. 2020 Jun 13;395(10240):1820",
+          pmid: "32511943",
+        },
+        {
+          refType: "ErratumIn",
+          refSource: "Lancet. 2020 May 30;395(10238):1686",
+        },
+        {
+          refType: "CommentIn",
+          refSource: "Lancet. 2020 Jun 6;395(10239):e102",
+          pmid: "32504890",
+        },
+      ]);
+      expect(result.retracted).toBe(true);
+    });
+
+    it("should detect retractions from the publication type", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                PublicationTypeList: {
+                  PublicationType: ["Journal Article", "Retracted Publication"],
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.retracted).toBe(true);
+    });
+
+    it("should not mark articles with only errata or comments as retracted", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {},
+              CommentsCorrectionsList: {
+                CommentsCorrections: {
+                  "@RefType": "UpdateIn",
+                  PMID: "99999",
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.commentsCorrections).toEqual([
+        { refType: "UpdateIn", pmid: "99999" },
+      ]);
+      expect(result.retracted).toBe(false);
+    });
+  });
+
+  describe("extractArticleMetadata - references", () => {
+    it("should extract references with their identifiers", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID>12345</PMID>
+              <Article><ArticleTitle>Citing Article</ArticleTitle></Article>
+            </MedlineCitation>
+            <PubmedData>
+              <ReferenceList>
+                <Reference>
+                  <Citation>Smith J. First cited work. Nature. 2020;1:1-2.</Citation>
+                  <ArticleIdList>
+                    <ArticleId IdType="doi">10.1038/first</ArticleId>
+                    <ArticleId IdType="pubmed">11111</ArticleId>
+                    <ArticleId IdType="pmc">PMC1111</ArticleId>
+                  </ArticleIdList>
+                </Reference>
+                <Reference>
+                  <Citation>Doe A. Unindexed report. 2019.</Citation>
+                </Reference>
+                <ReferenceList>
+                  <Title>Supplementary references</Title>
+                  <Reference>
+                    <Citation>Roe B. Nested work.</Citation>
+                    <ArticleIdList>
+                      <ArticleId IdType="pubmed">22222</ArticleId>
+                    </ArticleIdList>
+                  </Reference>
+                </ReferenceList>
+              </ReferenceList>
+            </PubmedData>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.references).toEqual([
+        {
+          citation: "Smith J. First cited work. Nature. 2020;1:1-2.",
+          pmid: "11111",
+          doi: "10.1038/first",
+          pmcid: "PMC1111",
+        },
+        { citation: "Doe A. Unindexed report. 2019." },
+        { citation: "Roe B. Nested work.", pmid: "22222" },
+      ]);
+    });
+
+    it("should return an empty list when there is no reference list", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {
+          PubmedArticle: { MedlineCitation: { Article: {} } },
+        },
+      });
+
+      expect(result.references).toEqual([]);
+    });
+  });
+
+  describe("extractArticleList", () => {
+    it("should extract every article of a multi-article response in order", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID Version="1">22222</PMID>
+              <Article><ArticleTitle>Second</ArticleTitle></Article>
+            </MedlineCitation>
+          </PubmedArticle>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID Version="1">11111</PMID>
+              <Article><ArticleTitle>First</ArticleTitle></Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const results = parser.extractArticleList(xmlResponse);
+
+      expect(results.map((article) => [article.uid, article.Title])).toEqual([
+        ["22222", "Second"],
+        ["11111", "First"],
+      ]);
+    });
+
+    it("should handle a response with a single article", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID>11111</PMID>
+              <Article><ArticleTitle>Only</ArticleTitle></Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      expect(parser.extractArticleList(xmlResponse)).toHaveLength(1);
+    });
+
+    it("should return the articles in the requested order", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID>22222</PMID>
+              <Article><ArticleTitle>Second</ArticleTitle></Article>
+            </MedlineCitation>
+          </PubmedArticle>
+          <PubmedBookArticle>
+            <BookDocument>
+              <PMID>33333</PMID>
+              <ArticleTitle>Chapter</ArticleTitle>
+            </BookDocument>
+          </PubmedBookArticle>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID>11111</PMID>
+              <Article><ArticleTitle>First</ArticleTitle></Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const results = parser.extractArticleList(xmlResponse, [
+        "33333",
+        "11111",
+        "44444",
+        "22222",
+      ]);
+
+      expect(
+        results.map((article) => [article.uid, article.kind, article.Title])
+      ).toEqual([
+        ["33333", "book", "Chapter"],
+        ["11111", "journal", "First"],
+        ["22222", "journal", "Second"],
+      ]);
+    });
+
+    it("should return an empty list for an empty response", () => {
+      const xmlResponse = parser.parseXML(
+        "<PubmedArticleSet></PubmedArticleSet>"
+      );
+
+      expect(parser.extractArticleList(xmlResponse)).toEqual([]);
+    });
+  });
+
+  describe("extractDocSummaries", () => {
+    const summaryResponse = {
+      header: { type: "esummary", version: "0.3" },
+      result: {
+        uids: ["33301246", "99999999", "31234567"],
+        "33301246": {
+          uid: "33301246",
+          pubdate: "2021 Feb 4",
+          epubdate: "2020 Dec 10",
+          source: "N Engl J Med",
+          authors: [
+            { name: "Polack FP", authtype: "Author", clusterid: "" },
+            { name: "Thomas SJ", authtype: "Author", clusterid: "" },
+            {
+              name: "C4591001 Clinical Trial Group",
+              authtype: "CollectiveName",
+            },
+          ],
+          title: "Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine.",
+          volume: "383",
+          issue: "27",
+          pages: "2603-2615",
+          lang: ["eng"],
+          pubtype: ["Journal Article", "Randomized Controlled Trial"],
+          articleids: [
+            { idtype: "pubmed", idtypen: 1, value: "33301246" },
+            { idtype: "doi", idtypen: 3, value: "10.1056/NEJMoa2034577" },
+            { idtype: "pmc", idtypen: 8, value: "PMC7745181" },
+            { idtype: "pmcid", idtypen: 5, value: "pmc-id: PMC7745181;" },
+          ],
+          attributes: ["Has Abstract"],
+          fulljournalname: "The New England journal of medicine",
+        },
+        "99999999": { uid: "99999999", error: "cannot get document summary" },
+        "31234567": {
+          uid: "31234567",
+          pubdate: "2019",
+          epubdate: "",
+          source: "Lancet",
+          authors: [],
+          title: "Effect of <i>Escherichia coli</i> on outcomes",
+          volume: "",
+          issue: "",
+          pages: "",
+          lang: ["eng"],
+          pubtype: ["Journal Article", "Retracted Publication"],
+          articleids: [{ idtype: "pubmed", value: "31234567" }],
+          attributes: [],
+          fulljournalname: "",
+        },
+      },
+    };
+
+    it("should extract the document summary of each record", () => {
+      const [summary] = parser.extractDocSummaries(summaryResponse);
+
+      expect(summary).toEqual({
+        uid: "33301246",
+        title: "Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine.",
+        authors: ["Polack FP", "Thomas SJ"],
+        source: "N Engl J Med",
+        fullJournalName: "The New England journal of medicine",
+        pubdate: "2021 Feb 4",
+        epubdate: "2020 Dec 10",
+        volume: "383",
+        issue: "27",
+        pages: "2603-2615",
+        languages: ["eng"],
+        publicationTypes: ["Journal Article", "Randomized Controlled Trial"],
+        doi: "10.1056/NEJMoa2034577",
+        pmcid: "PMC7745181",
+        hasAbstract: true,
+        retracted: false,
+      });
+    });
+
+    it("should omit empty fields and render title markup", () => {
+      const summary = parser.extractDocSummaries(summaryResponse)[1];
+
+      expect(summary).toEqual({
+        uid: "31234567",
+        title: "Effect of Escherichia coli on outcomes",
+        authors: [],
+        source: "Lancet",
+        pubdate: "2019",
+        languages: ["eng"],
+        publicationTypes: ["Journal Article", "Retracted Publication"],
+        hasAbstract: false,
+        retracted: true,
+      });
+    });
+
+    it("should skip records reported as errors", () => {
+      const uids = parser
+        .extractDocSummaries(summaryResponse)
+        .map((summary) => summary.uid);
+
+      expect(uids).toEqual(["33301246", "31234567"]);
+    });
+
+    it("should return summaries in the order of the requested UIDs", () => {
+      const uids = parser
+        .extractDocSummaries(summaryResponse, ["31234567", "404", "33301246"])
+        .map((summary) => summary.uid);
+
+      expect(uids).toEqual(["31234567", "33301246"]);
+    });
+
+    it("should handle a response without results", () => {
+      expect(parser.extractDocSummaries({})).toEqual([]);
+    });
+  });
+
+  describe("extractCorrectedQuery", () => {
+    it("should extract the corrected query of an ESpell response", () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8" ?>
+        <!DOCTYPE eSpellResult PUBLIC "-//NLM//DTD eSpellResult, 23 November 2004//EN" "https://eutils.ncbi.nlm.nih.gov/eutils/dtd/20041123/espell.dtd">
+        <eSpellResult>
+          <Database>pubmed</Database>
+          <Query>asthmaa treatmnt</Query>
+          <CorrectedQuery>asthma treatment</CorrectedQuery>
+          <SpelledQuery><Replaced>asthma</Replaced> <Replaced>treatment</Replaced></SpelledQuery>
+          <ERROR/>
+        </eSpellResult>`;
+
+      expect(parser.extractCorrectedQuery(xml)).toBe("asthma treatment");
+    });
+
+    it("should return an empty string without a suggestion", () => {
+      const xml = `<eSpellResult>
+          <Database>pubmed</Database>
+          <Query>xyzzyplugh</Query>
+          <CorrectedQuery></CorrectedQuery>
+          <ERROR/>
+        </eSpellResult>`;
+
+      expect(parser.extractCorrectedQuery(xml)).toBe("");
+    });
+  });
+
+  describe("extractDatabaseInfo", () => {
+    it("should extract the database description, fields and links", () => {
+      const info = parser.extractDatabaseInfo({
+        einforesult: {
+          dbinfo: [
+            {
+              dbname: "pubmed",
+              menuname: "PubMed",
+              description: "PubMed bibliographic record",
+              dbbuild: "Build-2024.06.11.05.38",
+              count: "37512347",
+              lastupdate: "2024/06/11 05:38",
+              fieldlist: [
+                {
+                  name: "TIAB",
+                  fullname: "Title/Abstract",
+                  description: "Free text associated with Abstract/Title",
+                  isdate: "N",
+                  isnumerical: "N",
+                  ishidden: "N",
+                },
+                {
+                  name: "PDAT",
+                  fullname: "Publication Date",
+                  description: "Date of publication",
+                  isdate: "Y",
+                  isnumerical: "N",
+                  ishidden: "N",
+                },
+              ],
+              linklist: [
+                {
+                  name: "pubmed_pubmed_citedin",
+                  menu: "Cited in",
+                  description: "PubMed articles that cite the current article",
+                  dbto: "pubmed",
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+      expect(info).toEqual({
+        name: "pubmed",
+        menuName: "PubMed",
+        description: "PubMed bibliographic record",
+        build: "Build-2024.06.11.05.38",
+        count: 37512347,
+        lastUpdate: "2024/06/11 05:38",
+        fields: [
+          {
+            name: "TIAB",
+            fullName: "Title/Abstract",
+            description: "Free text associated with Abstract/Title",
+            isDate: false,
+            isNumerical: false,
+            isHidden: false,
+          },
+          {
+            name: "PDAT",
+            fullName: "Publication Date",
+            description: "Date of publication",
+            isDate: true,
+            isNumerical: false,
+            isHidden: false,
+          },
+        ],
+        links: [
+          {
+            name: "pubmed_pubmed_citedin",
+            menu: "Cited in",
+            description: "PubMed articles that cite the current article",
+            dbTo: "pubmed",
+          },
+        ],
+      });
+    });
+
+    it("should default missing values", () => {
+      const info = parser.extractDatabaseInfo({
+        einforesult: { dbinfo: { dbname: "pmc" } },
+      });
+
+      expect(info).toEqual({
+        name: "pmc",
+        description: "",
+        count: 0,
+        lastUpdate: "",
+        fields: [],
+        links: [],
+      });
+    });
+
+    it("should throw without a database description", () => {
+      expect(() => parser.extractDatabaseInfo({ einforesult: {} })).toThrow(
+        "Invalid response from PubMed EInfo API"
+      );
+    });
+  });
+
+  describe("extractArticleMetadata - publication types", () => {
+    it("should extract publication types and derive the evidence level", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <ArticleTitle>Trial Article</ArticleTitle>
+                <PublicationTypeList>
+                  <PublicationType UI="D016428">Journal Article</PublicationType>
+                  <PublicationType UI="D016449">Randomized Controlled Trial</PublicationType>
+                </PublicationTypeList>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.publicationTypes).toEqual([
+        { name: "Journal Article", ui: "D016428" },
+        { name: "Randomized Controlled Trial", ui: "D016449" },
+      ]);
+      expect(result.evidenceLevel).toBe("rct");
+    });
+
+    it("should handle a single publication type without UI", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                PublicationTypeList: { PublicationType: "Editorial" },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.publicationTypes).toEqual([{ name: "Editorial" }]);
+      expect(result.evidenceLevel).toBe("opinion");
+    });
+
+    it("should mark records without publication types as unclassified", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {},
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.publicationTypes).toEqual([]);
+      expect(result.evidenceLevel).toBe("unclassified");
     });
   });
 
   describe("toDocument", () => {
     it("should convert article metadata to Document", () => {
-      const metadata = {
+      const metadata: PubMedArticleMetadata = {
+        kind: "journal",
         uid: "12345",
         Title: "Test Article",
+        languages: [],
         Published: "2024-10-15",
         "Copyright Information": "Copyright 2024",
         Summary: "This is the abstract content.",
+        abstractSections: [{ text: "This is the abstract content." }],
+        otherAbstracts: [],
+        authors: [
+          {
+            lastName: "Smith",
+            initials: "J",
+            affiliations: ["Test University"],
+            equalContrib: false,
+          },
+        ],
+        journal: {
+          isoAbbreviation: "Test J",
+          volume: "12",
+          pages: "1-10",
+          eLocationIds: [],
+        },
+        meshHeadings: [
+          { descriptor: "Humans", majorTopic: false, qualifiers: [] },
+        ],
+        keywords: [{ keyword: "testing", owner: "NOTNLM", majorTopic: false }],
+        chemicals: [
+          { name: "Metformin", ui: "D008687", registryNumber: "9100L32L2N" },
+        ],
+        supplementaryConcepts: [],
+        grants: [],
+        commentsCorrections: [],
+        retracted: false,
+        references: [],
+        publicationTypes: [{ name: "Case Reports", ui: "D002363" }],
+        evidenceLevel: "case-report" as const,
+        ids: {
+          pmid: "12345",
+          doi: "10.1000/test.123",
+          pmcid: "PMC54321",
+          other: {},
+        },
       };
 
       const doc = parser.toDocument(metadata);
@@ -278,16 +1696,39 @@ describe("PubMedParser", () => {
       expect(doc.metadata.Title).toBe("Test Article");
       expect(doc.metadata.Published).toBe("2024-10-15");
       expect(doc.metadata["Copyright Information"]).toBe("Copyright 2024");
+      expect(doc.metadata.authors).toEqual(metadata.authors);
+      expect(doc.metadata.journal).toEqual(metadata.journal);
+      expect(doc.metadata.meshHeadings).toEqual(metadata.meshHeadings);
+      expect(doc.metadata.keywords).toEqual(metadata.keywords);
+      expect(doc.metadata.chemicals).toEqual(metadata.chemicals);
+      expect(doc.metadata.evidenceLevel).toBe("case-report");
+      expect(doc.metadata.ids).toEqual(metadata.ids);
       expect(doc.metadata).not.toHaveProperty("Summary");
     });
 
     it("should handle empty summary", () => {
-      const metadata = {
+      const metadata: PubMedArticleMetadata = {
+        kind: "journal",
         uid: "12345",
         Title: "Test Article",
+        languages: [],
         Published: "2024-10-15",
         "Copyright Information": "",
         Summary: "",
+        abstractSections: [],
+        otherAbstracts: [],
+        authors: [],
+        meshHeadings: [],
+        keywords: [],
+        chemicals: [],
+        supplementaryConcepts: [],
+        grants: [],
+        commentsCorrections: [],
+        retracted: false,
+        references: [],
+        publicationTypes: [],
+        evidenceLevel: "unclassified" as const,
+        ids: { pmid: "12345", other: {} },
       };
 
       const doc = parser.toDocument(metadata);
@@ -297,6 +1738,495 @@ describe("PubMedParser", () => {
     });
   });
 
+  describe("extractArticleMetadata - publication dates", () => {
+    const createResponse = (
+      articleFields: Record<string, unknown>,
+      pubmedData: Record<string, unknown> = {}
+    ): PubMedXMLResponse => ({
+      PubmedArticleSet: {
+        PubmedArticle: {
+          MedlineCitation: { Article: articleFields },
+          PubmedData: pubmedData,
+        },
+      },
+    });
+
+    it("should prefer the electronic ArticleDate and expose both dates", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <Journal>
+                  <JournalIssue>
+                    <PubDate>
+                      <Year>2021</Year>
+                      <Month>Feb</Month>
+                    </PubDate>
+                  </JournalIssue>
+                </Journal>
+                <ArticleDate DateType="Electronic">
+                  <Year>2020</Year>
+                  <Month>12</Month>
+                  <Day>10</Day>
+                </ArticleDate>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.Published).toBe("2020-12-10");
+      expect(result.publishedSource).toBe("article-date");
+      expect(result.electronicDate).toBe("2020-12-10");
+      expect(result.printDate).toBe("2021-02");
+    });
+
+    it("should fall back to the journal issue PubDate with month names", () => {
+      const result = parser.extractArticleMetadata(
+        "12345",
+        createResponse({
+          Journal: {
+            JournalIssue: {
+              PubDate: { Year: "2019", Month: "Sep", Day: "5" },
+            },
+          },
+        })
+      );
+
+      expect(result.Published).toBe("2019-09-05");
+      expect(result.publishedSource).toBe("pub-date");
+      expect(result).not.toHaveProperty("electronicDate");
+      expect(result.printDate).toBe("2019-09-05");
+    });
+
+    it("should parse free-text MedlineDate ranges", () => {
+      const result = parser.extractArticleMetadata(
+        "12345",
+        createResponse({
+          Journal: {
+            JournalIssue: { PubDate: { MedlineDate: "2019 Nov-Dec" } },
+          },
+        })
+      );
+
+      expect(result.Published).toBe("2019-11");
+      expect(result.publishedSource).toBe("medline-date");
+      expect(result.printDate).toBe("2019-11");
+    });
+
+    it("should reduce seasons and year ranges to the year", () => {
+      const seasonal = parser.extractArticleMetadata(
+        "12345",
+        createResponse({
+          Journal: {
+            JournalIssue: { PubDate: { Year: "2018", Season: "Spring" } },
+          },
+        })
+      );
+      const yearRange = parser.extractArticleMetadata(
+        "12345",
+        createResponse({
+          Journal: {
+            JournalIssue: { PubDate: { MedlineDate: "1998-1999" } },
+          },
+        })
+      );
+      const crossYear = parser.extractArticleMetadata(
+        "12345",
+        createResponse({
+          Journal: {
+            JournalIssue: { PubDate: { MedlineDate: "1998 Dec-1999 Jan" } },
+          },
+        })
+      );
+
+      expect(seasonal.Published).toBe("2018");
+      expect(yearRange.Published).toBe("1998");
+      expect(crossYear.Published).toBe("1998-12");
+    });
+
+    it("should fall back to PubMed history dates in order", () => {
+      const result = parser.extractArticleMetadata(
+        "12345",
+        createResponse(
+          {},
+          {
+            History: {
+              PubMedPubDate: [
+                {
+                  "@PubStatus": "accepted",
+                  Year: "2022",
+                  Month: "3",
+                  Day: "1",
+                },
+                {
+                  "@PubStatus": "entrez",
+                  Year: "2022",
+                  Month: "4",
+                  Day: "2",
+                },
+              ],
+            },
+          }
+        )
+      );
+
+      expect(result.Published).toBe("2022-04-02");
+      expect(result.publishedSource).toBe("history-entrez");
+    });
+
+    it("should use the contribution date of book documents", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              ContributionDate: { Year: "2017", Month: "06", Day: "22" },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.Published).toBe("2017-06-22");
+      expect(result.publishedSource).toBe("contribution-date");
+    });
+
+    it("should leave the date empty when no source is available", () => {
+      const result = parser.extractArticleMetadata("12345", createResponse({}));
+
+      expect(result.Published).toBe("");
+      expect(result).not.toHaveProperty("publishedSource");
+    });
+  });
+
+  describe("extractArticleMetadata - identifiers", () => {
+    it("should extract identifiers from the ArticleIdList", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID Version="2">33301246</PMID>
+              <Article>
+                <ArticleTitle>Identified Article</ArticleTitle>
+              </Article>
+            </MedlineCitation>
+            <PubmedData>
+              <ArticleIdList>
+                <ArticleId IdType="pubmed">33301246</ArticleId>
+                <ArticleId IdType="pmc">PMC7745181</ArticleId>
+                <ArticleId IdType="doi">10.1056/NEJMoa2034577</ArticleId>
+                <ArticleId IdType="pii">0028479320</ArticleId>
+                <ArticleId IdType="mid">NIHMS1654321</ArticleId>
+                <ArticleId IdType="pmcpid">NEJMoa2034577</ArticleId>
+              </ArticleIdList>
+            </PubmedData>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("33301246", xmlResponse);
+
+      expect(result.ids).toEqual({
+        pmid: "33301246",
+        pmidVersion: "2",
+        doi: "10.1056/NEJMoa2034577",
+        pmcid: "PMC7745181",
+        pii: "0028479320",
+        mid: "NIHMS1654321",
+        other: { pmcpid: "NEJMoa2034577" },
+      });
+    });
+
+    it("should fall back to the ELocationID DOI and citation PMID", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <PMID Version="1">11111</PMID>
+              <Article>
+                <ELocationID EIdType="pii" ValidYN="Y">e001</ELocationID>
+                <ELocationID EIdType="doi" ValidYN="Y">10.1000/fallback</ELocationID>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("11111", xmlResponse);
+
+      expect(result.ids).toEqual({
+        pmid: "11111",
+        pmidVersion: "1",
+        doi: "10.1000/fallback",
+        other: {},
+      });
+    });
+
+    it("should extract identifiers of book articles", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedBookArticle: {
+            BookDocument: {
+              PMID: { "@Version": "1", "#text": "20301295" },
+            },
+            PubmedBookData: {
+              ArticleIdList: {
+                ArticleId: { "@IdType": "bookaccession", "#text": "NBK1116" },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("20301295", xmlResponse);
+
+      expect(result.ids).toEqual({
+        pmid: "20301295",
+        pmidVersion: "1",
+        other: { bookaccession: "NBK1116" },
+      });
+    });
+
+    it("should use the uid when no identifiers are present", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {},
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.ids).toEqual({ pmid: "12345", other: {} });
+    });
+  });
+
+  describe("extractArticleMetadata - abstract sections", () => {
+    it("should extract labelled sections with NLM categories", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <Abstract>
+                  <AbstractText Label="BACKGROUND" NlmCategory="BACKGROUND">Background text.</AbstractText>
+                  <AbstractText Label="MATERIALS AND METHODS" NlmCategory="METHODS">Methods text.</AbstractText>
+                  <AbstractText Label="FINDINGS" NlmCategory="RESULTS">Results text.</AbstractText>
+                </Abstract>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.abstractSections).toEqual([
+        {
+          label: "BACKGROUND",
+          nlmCategory: "BACKGROUND",
+          text: "Background text.",
+        },
+        {
+          label: "MATERIALS AND METHODS",
+          nlmCategory: "METHODS",
+          text: "Methods text.",
+        },
+        { label: "FINDINGS", nlmCategory: "RESULTS", text: "Results text." },
+      ]);
+    });
+
+    it("should keep unlabelled paragraphs of multi-paragraph abstracts", () => {
+      const xmlResponse = parser.parseXML(`
+        <PubmedArticleSet>
+          <PubmedArticle>
+            <MedlineCitation>
+              <Article>
+                <Abstract>
+                  <AbstractText>First paragraph.</AbstractText>
+                  <AbstractText>Second paragraph.</AbstractText>
+                </Abstract>
+              </Article>
+            </MedlineCitation>
+          </PubmedArticle>
+        </PubmedArticleSet>
+      `);
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.abstractSections).toEqual([
+        { text: "First paragraph." },
+        { text: "Second paragraph." },
+      ]);
+      expect(result.Summary).toBe("First paragraph.\nSecond paragraph.");
+    });
+
+    it("should keep unlabelled sections mixed with labelled ones", () => {
+      const xmlResponse: PubMedXMLResponse = {
+        PubmedArticleSet: {
+          PubmedArticle: {
+            MedlineCitation: {
+              Article: {
+                Abstract: {
+                  AbstractText: [
+                    { "@Label": "BACKGROUND", "#text": "Background." },
+                    "Unlabelled paragraph.",
+                  ] as any,
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.extractArticleMetadata("12345", xmlResponse);
+
+      expect(result.Summary).toBe(
+        "BACKGROUND: Background.\nUnlabelled paragraph."
+      );
+    });
+
+    it("should return no sections when the abstract is missing", () => {
+      const result = parser.extractArticleMetadata("12345", {
+        PubmedArticleSet: {},
+      });
+
+      expect(result.abstractSections).toEqual([]);
+    });
+  });
+
+  describe("toSectionDocuments", () => {
+    const metadata: PubMedArticleMetadata = {
+      kind: "journal",
+      uid: "12345",
+      Title: "Structured Article",
+      languages: [],
+      Published: "2024",
+      "Copyright Information": "",
+      Summary: "BACKGROUND: Background.\nRESULTS: Results.",
+      abstractSections: [
+        { label: "BACKGROUND", nlmCategory: "BACKGROUND", text: "Background." },
+        { label: "FINDINGS", nlmCategory: "RESULTS", text: "Results." },
+      ],
+      otherAbstracts: [],
+      authors: [],
+      meshHeadings: [],
+      keywords: [],
+      chemicals: [],
+      supplementaryConcepts: [],
+      grants: [],
+      commentsCorrections: [],
+      retracted: false,
+      references: [],
+      publicationTypes: [],
+      evidenceLevel: "unclassified" as const,
+      ids: { pmid: "12345", other: {} },
+    };
+
+    it("should emit one Document per section with shared metadata", () => {
+      const docs = parser.toSectionDocuments(metadata);
+
+      expect(docs).toHaveLength(2);
+      expect(docs[1].pageContent).toBe("Results.");
+      expect(docs[1].metadata).toMatchObject({
+        uid: "12345",
+        Title: "Structured Article",
+        source: "https://pubmed.ncbi.nlm.nih.gov/12345/",
+        section: "FINDINGS",
+        nlmCategory: "RESULTS",
+        sectionIndex: 1,
+      });
+      expect(docs[1].metadata).not.toHaveProperty("abstractSections");
+      expect(docs[1].metadata).not.toHaveProperty("Summary");
+    });
+
+    it("should emit a single Document for articles without sections", () => {
+      const docs = parser.toSectionDocuments({
+        ...metadata,
+        Summary: "No abstract available",
+        abstractSections: [],
+      });
+
+      expect(docs).toHaveLength(1);
+      expect(docs[0].pageContent).toBe("No abstract available");
+      expect(docs[0].metadata).not.toHaveProperty("section");
+    });
+  });
+
+  describe("toDocument - URLs", () => {
+    it("should add PubMed, DOI and PMC URLs", () => {
+      const doc = parser.toDocument({
+        kind: "journal",
+        uid: "12345",
+        Title: "Test Article",
+        languages: [],
+        Published: "",
+        "Copyright Information": "",
+        Summary: "",
+        abstractSections: [],
+        otherAbstracts: [],
+        authors: [],
+        meshHeadings: [],
+        keywords: [],
+        chemicals: [],
+        supplementaryConcepts: [],
+        grants: [],
+        commentsCorrections: [],
+        retracted: false,
+        references: [],
+        publicationTypes: [],
+        evidenceLevel: "unclassified",
+        ids: {
+          pmid: "12345",
+          doi: "10.1000/test.123",
+          pmcid: "PMC54321",
+          other: {},
+        },
+      });
+
+      expect(doc.metadata.source).toBe(
+        "https://pubmed.ncbi.nlm.nih.gov/12345/"
+      );
+      expect(doc.metadata.doiUrl).toBe("https://doi.org/10.1000/test.123");
+      expect(doc.metadata.pmcUrl).toBe(
+        "https://pmc.ncbi.nlm.nih.gov/articles/PMC54321/"
+      );
+    });
+
+    it("should only add the PubMed URL when no other identifiers are known", () => {
+      const doc = parser.toDocument({
+        kind: "journal",
+        uid: "12345",
+        Title: "Test Article",
+        languages: [],
+        Published: "",
+        "Copyright Information": "",
+        Summary: "",
+        abstractSections: [],
+        otherAbstracts: [],
+        authors: [],
+        meshHeadings: [],
+        keywords: [],
+        chemicals: [],
+        supplementaryConcepts: [],
+        grants: [],
+        commentsCorrections: [],
+        retracted: false,
+        references: [],
+        publicationTypes: [],
+        evidenceLevel: "unclassified",
+        ids: { pmid: "12345", other: {} },
+      });
+
+      expect(doc.metadata.source).toBe(
+        "https://pubmed.ncbi.nlm.nih.gov/12345/"
+      );
+      expect(doc.metadata).not.toHaveProperty("doiUrl");
+      expect(doc.metadata).not.toHaveProperty("pmcUrl");
+    });
+  });
+
   describe("Edge cases", () => {
     it("should parse XML without throwing on simple text", () => {
       const xmlText = "Not valid XML at all";
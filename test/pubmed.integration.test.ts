@@ -40,6 +40,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation Status="MEDLINE" Owner="NLM">
+      <PMID Version="1">12345678</PMID>
       <Article PubModel="Print">
         <ArticleTitle>Test Article Title About COVID-19</ArticleTitle>
         <Abstract>
@@ -90,6 +91,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">99999</PMID>
       <Article>
         <ArticleTitle>Structured Abstract Article</ArticleTitle>
         <Abstract>
@@ -137,6 +139,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedBookArticle>
     <BookDocument>
+      <PMID Version="1">book123</PMID>
       <ArticleTitle>Medical Textbook Chapter</ArticleTitle>
       <Abstract>
         <AbstractText>This is a book chapter about medical topics.</AbstractText>
@@ -176,10 +179,11 @@ describe("PubMed Integration Tests", () => {
         { status: 200 }
       );
 
-      const mockXML1 = `<?xml version="1.0"?>
+      const mockXML = `<?xml version="1.0"?>
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">111</PMID>
       <Article>
         <ArticleTitle>First Article</ArticleTitle>
         <Abstract>
@@ -188,12 +192,9 @@ describe("PubMed Integration Tests", () => {
       </Article>
     </MedlineCitation>
   </PubmedArticle>
-</PubmedArticleSet>`;
-
-      const mockXML2 = `<?xml version="1.0"?>
-<PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">222</PMID>
       <Article>
         <ArticleTitle>Second Article</ArticleTitle>
         <Abstract>
@@ -206,8 +207,7 @@ describe("PubMed Integration Tests", () => {
 
       mockFetch
         .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValueOnce(new Response(mockXML1, { status: 200 }))
-        .mockResolvedValueOnce(new Response(mockXML2, { status: 200 }));
+        .mockResolvedValueOnce(new Response(mockXML, { status: 200 }));
 
       const articles = await wrapper.load("test");
 
@@ -236,6 +236,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">12345</PMID>
       <Article>
         <ArticleTitle>Document Test Article</ArticleTitle>
         <Abstract>
@@ -270,6 +271,66 @@ describe("PubMed Integration Tests", () => {
       );
     });
 
+    it("should expose journal citation details on lazily loaded Documents", async () => {
+      const wrapper = new PubMedAPIWrapper({
+        topKResults: 1,
+        email: "test@example.com",
+      });
+
+      const mockSearchResponse = new Response(
+        JSON.stringify({
+          esearchresult: {
+            webenv: "test-webenv",
+            idlist: ["12345"],
+          },
+        }),
+        { status: 200 }
+      );
+
+      const mockXML = `<?xml version="1.0"?>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation>
+      <PMID Version="1">12345</PMID>
+      <Article>
+        <Journal>
+          <ISSN IssnType="Print">0140-6736</ISSN>
+          <JournalIssue CitedMedium="Print">
+            <Volume>395</Volume>
+            <Issue>10223</Issue>
+          </JournalIssue>
+          <Title>Lancet (London, England)</Title>
+          <ISOAbbreviation>Lancet</ISOAbbreviation>
+        </Journal>
+        <ArticleTitle>Journal Citation Article</ArticleTitle>
+        <Pagination>
+          <MedlinePgn>497-506</MedlinePgn>
+        </Pagination>
+      </Article>
+    </MedlineCitation>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+      mockFetch
+        .mockResolvedValueOnce(mockSearchResponse)
+        .mockResolvedValueOnce(new Response(mockXML, { status: 200 }));
+
+      const docs: any[] = [];
+      for await (const doc of wrapper.lazyLoadDocs("test")) {
+        docs.push(doc);
+      }
+
+      expect(docs).toHaveLength(1);
+      expect(docs[0].metadata.journal).toMatchObject({
+        title: "Lancet (London, England)",
+        isoAbbreviation: "Lancet",
+        issnPrint: "0140-6736",
+        volume: "395",
+        issue: "10223",
+        pages: "497-506",
+      });
+    });
+
     it("should handle lazy loading correctly", async () => {
       const wrapper = new PubMedAPIWrapper({
         topKResults: 3,
@@ -286,10 +347,10 @@ describe("PubMed Integration Tests", () => {
         { status: 200 }
       );
 
-      const createMockXML = (title: string) => `<?xml version="1.0"?>
-<PubmedArticleSet>
+      const createMockArticle = (pmid: string, title: string) => `
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">${pmid}</PMID>
       <Article>
         <ArticleTitle>${title}</ArticleTitle>
         <Abstract>
@@ -297,20 +358,19 @@ describe("PubMed Integration Tests", () => {
         </Abstract>
       </Article>
     </MedlineCitation>
-  </PubmedArticle>
+  </PubmedArticle>`;
+
+      // Returned out of order to check that search order is restored
+      const mockXML = `<?xml version="1.0"?>
+<PubmedArticleSet>${createMockArticle("3", "Article 3")}${createMockArticle(
+        "1",
+        "Article 1"
+      )}${createMockArticle("2", "Article 2")}
 </PubmedArticleSet>`;
 
       mockFetch
         .mockResolvedValueOnce(mockSearchResponse)
-        .mockResolvedValueOnce(
-          new Response(createMockXML("Article 1"), { status: 200 })
-        )
-        .mockResolvedValueOnce(
-          new Response(createMockXML("Article 2"), { status: 200 })
-        )
-        .mockResolvedValueOnce(
-          new Response(createMockXML("Article 3"), { status: 200 })
-        );
+        .mockResolvedValueOnce(new Response(mockXML, { status: 200 }));
 
       const results: any[] = [];
       for await (const article of wrapper.lazyLoad("test")) {
@@ -321,6 +381,7 @@ describe("PubMed Integration Tests", () => {
       expect(results[0].Title).toBe("Article 1");
       expect(results[1].Title).toBe("Article 2");
       expect(results[2].Title).toBe("Article 3");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it("should truncate query based on maxQueryLength", async () => {
@@ -371,6 +432,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">12345</PMID>
       <Article>
         <ArticleTitle>Long Abstract Article</ArticleTitle>
         <Abstract>
@@ -412,6 +474,7 @@ describe("PubMed Integration Tests", () => {
 <PubmedArticleSet>
   <PubmedArticle>
     <MedlineCitation>
+      <PMID Version="1">99999</PMID>
       <Article>
         <ArticleTitle>Integration Test Article</ArticleTitle>
         <Abstract>
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for PubMedQuery
+ * Tests composition and serialization of PubMed search terms (no API calls)
+ */
+
+import { PubMedQuery } from "../src/query-builder.js";
+
+describe("PubMedQuery", () => {
+  describe("terms", () => {
+    it("should serialize a term without a field tag", () => {
+      expect(PubMedQuery.term("asthma").toString()).toBe("asthma");
+    });
+
+    it("should append the field tag", () => {
+      expect(PubMedQuery.term("Smith J", "au").toString()).toBe(
+        '"Smith J"[au]'
+      );
+      expect(PubMedQuery.term("Asthma", "majr").toString()).toBe(
+        "Asthma[majr]"
+      );
+      expect(PubMedQuery.term("english", "la").toString()).toBe("english[la]");
+    });
+
+    it("should quote multi-word terms so operators in them stay literal", () => {
+      expect(PubMedQuery.term("salt AND pepper", "ti").toString()).toBe(
+        '"salt AND pepper"[ti]'
+      );
+    });
+
+    it("should strip reserved characters and collapse whitespace", () => {
+      expect(
+        PubMedQuery.term('  heart "failure"[ti] (acute)* ', "tiab").toString()
+      ).toBe('"heart failure ti acute"[tiab]');
+    });
+
+    it("should quote terms that are boolean operators", () => {
+      expect(PubMedQuery.term("NOT").toString()).toBe('"NOT"');
+      expect(PubMedQuery.term("or", "ti").toString()).toBe('"or"[ti]');
+      expect(PubMedQuery.and("OR", "cancer").toString()).toBe(
+        '"OR" AND cancer'
+      );
+    });
+
+    it("should strip History server references and range separators", () => {
+      expect(PubMedQuery.term("#1").toString()).toBe("1");
+      expect(PubMedQuery.term("1990:2000", "ti").toString()).toBe(
+        '"1990 2000"[ti]'
+      );
+    });
+
+    it("should reject empty terms", () => {
+      expect(() => PubMedQuery.term(' "" ')).toThrow(
+        "Query term must not be empty"
+      );
+    });
+
+    it("should reject unknown field tags", () => {
+      expect(() => PubMedQuery.term("asthma", "xx" as any)).toThrow(
+        'Invalid field tag "xx"'
+      );
+    });
+  });
+
+  describe("phrases", () => {
+    it("should always quote phrases", () => {
+      expect(PubMedQuery.phrase("kidney", "tiab").toString()).toBe(
+        '"kidney"[tiab]'
+      );
+      expect(
+        PubMedQuery.phrase("Randomized Controlled Trial", "pt").toString()
+      ).toBe('"Randomized Controlled Trial"[pt]');
+    });
+  });
+
+  describe("truncation", () => {
+    it("should append the wildcard to the prefix", () => {
+      expect(PubMedQuery.truncated("vaccin", "tiab").toString()).toBe(
+        "vaccin*[tiab]"
+      );
+    });
+
+    it("should quote truncated phrases", () => {
+      expect(PubMedQuery.truncated("breast feed").toString()).toBe(
+        '"breast feed*"'
+      );
+    });
+
+    it("should reject prefixes shorter than four characters", () => {
+      expect(() => PubMedQuery.truncated("cat")).toThrow(
+        'Truncated term "cat" needs at least 4 characters'
+      );
+    });
+  });
+
+  describe("date ranges", () => {
+    it("should serialize a publication date range", () => {
+      expect(PubMedQuery.dateRange("2020", "2024/06/30").toString()).toBe(
+        "2020:2024/06/30[dp]"
+      );
+    });
+
+    it("should reject malformed dates", () => {
+      expect(() => PubMedQuery.dateRange("2020-01", "2024")).toThrow(
+        'Invalid date "2020-01"'
+      );
+    });
+  });
+
+  describe("boolean groups", () => {
+    it("should join operands with the operator", () => {
+      expect(
+        PubMedQuery.and(
+          PubMedQuery.term("asthma", "mh"),
+          PubMedQuery.term("child", "tiab")
+        ).toString()
+      ).toBe("asthma[mh] AND child[tiab]");
+    });
+
+    it("should treat plain strings as terms", () => {
+      expect(PubMedQuery.or("asthma", "wheez ing").toString()).toBe(
+        'asthma OR "wheez ing"'
+      );
+    });
+
+    it("should parenthesize nested groups with a different operator", () => {
+      const query = PubMedQuery.and(
+        PubMedQuery.or("asthma", "copd"),
+        PubMedQuery.term("Humans", "mh")
+      );
+
+      expect(query.toString()).toBe("(asthma OR copd) AND Humans[mh]");
+    });
+
+    it("should not parenthesize nested groups with the same operator", () => {
+      const query = PubMedQuery.or(PubMedQuery.or("a1", "b1"), "c1");
+
+      expect(query.toString()).toBe("a1 OR b1 OR c1");
+    });
+
+    it("should parenthesize both sides of NOT when they are groups", () => {
+      const query = PubMedQuery.and("asthma", "child").not(
+        PubMedQuery.or(
+          PubMedQuery.term("Review", "pt"),
+          PubMedQuery.term("Editorial", "pt")
+        )
+      );
+
+      expect(query.toString()).toBe(
+        "(asthma AND child) NOT (Review[pt] OR Editorial[pt])"
+      );
+    });
+
+    it("should chain instance methods", () => {
+      const query = PubMedQuery.term("asthma", "mh")
+        .and(PubMedQuery.dateRange("2020", "2024"))
+        .or(PubMedQuery.term("copd", "mh"));
+
+      expect(query.toString()).toBe(
+        "(asthma[mh] AND 2020:2024[dp]) OR copd[mh]"
+      );
+    });
+
+    it("should return a single operand unchanged", () => {
+      const term = PubMedQuery.term("asthma");
+
+      expect(PubMedQuery.and(term)).toBe(term);
+    });
+
+    it("should reject empty groups", () => {
+      expect(() => PubMedQuery.or()).toThrow(
+        "OR group needs at least one operand"
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for PubMedSimilarArticlesTool
+ * Tests Tool interface implementation with mocked API wrapper (no API calls)
+ */
+
+import { PubMedSimilarArticlesTool } from "../src/similar-articles-tool.js";
+import { PubMedAPIWrapper } from "../src/pubmed-api.js";
+
+// Mock the API wrapper
+jest.mock("../src/pubmed-api.js");
+
+describe("PubMedSimilarArticlesTool", () => {
+  let tool: PubMedSimilarArticlesTool;
+  let mockApiWrapper: jest.Mocked<PubMedAPIWrapper>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockApiWrapper = {
+      runSimilar: jest.fn(),
+    } as any;
+
+    (
+      PubMedAPIWrapper as jest.MockedClass<typeof PubMedAPIWrapper>
+    ).mockImplementation(() => mockApiWrapper);
+
+    tool = new PubMedSimilarArticlesTool({
+      topKResults: 3,
+      email: "test@example.com",
+    });
+  });
+
+  describe("Tool Metadata", () => {
+    it("should have correct name", () => {
+      expect(tool.name).toBe("pubmed_similar_articles");
+    });
+
+    it("should ask for a PubMed ID in the description", () => {
+      expect(tool.description).toContain("PubMed ID (PMID)");
+    });
+
+    it("should have correct lc_name", () => {
+      expect(PubMedSimilarArticlesTool.lc_name()).toBe(
+        "PubMedSimilarArticlesTool"
+      );
+    });
+
+    it("should declare the API key as a secret", () => {
+      expect(tool.lc_secrets).toEqual({ apiKey: "PUBMED_API_KEY" });
+    });
+  });
+
+  describe("Constructor", () => {
+    it("should pass options to API wrapper", () => {
+      expect(PubMedAPIWrapper).toHaveBeenCalledWith({
+        topKResults: 3,
+        email: "test@example.com",
+      });
+    });
+  });
+
+  describe("_call method", () => {
+    it("should call API wrapper runSimilar method", async () => {
+      mockApiWrapper.runSimilar.mockResolvedValue("Similarity Score: 42");
+
+      const result = await tool._call("33301246");
+
+      expect(mockApiWrapper.runSimilar).toHaveBeenCalledWith("33301246");
+      expect(result).toBe("Similarity Score: 42");
+    });
+
+    it("should extract the PMID from decorated input", async () => {
+      mockApiWrapper.runSimilar.mockResolvedValue("Similarity Score: 42");
+
+      await tool._call("PMID: 33301246");
+      await tool._call("https://pubmed.ncbi.nlm.nih.gov/33301246/");
+      await tool._call(" pmid33301246 ");
+
+      expect(mockApiWrapper.runSimilar.mock.calls).toEqual([
+        ["33301246"],
+        ["33301246"],
+        ["33301246"],
+      ]);
+    });
+
+    it("should pass PMCIDs and DOIs through unchanged", async () => {
+      mockApiWrapper.runSimilar.mockResolvedValue(
+        'PubMed exception: Error: Invalid PubMed ID "PMC7745181"'
+      );
+
+      await tool._call("PMC7745181");
+      await tool._call("10.1056/NEJMoa2034577");
+
+      expect(mockApiWrapper.runSimilar.mock.calls).toEqual([
+        ["PMC7745181"],
+        ["10.1056/NEJMoa2034577"],
+      ]);
+    });
+
+    it("should pass input without digits through unchanged", async () => {
+      mockApiWrapper.runSimilar.mockResolvedValue(
+        'PubMed exception: Error: Invalid PubMed ID "covid"'
+      );
+
+      const result = await tool._call("covid");
+
+      expect(mockApiWrapper.runSimilar).toHaveBeenCalledWith("covid");
+      expect(result).toContain("Invalid PubMed ID");
+    });
+  });
+});
@@ -81,6 +81,132 @@ describe("PubMedURLBuilder", () => {
     });
   });
 
+  describe("buildSearchUrl with options", () => {
+    it("should add paging and History server parameters", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildSearchUrl("cancer", 200, {
+        retstart: 400,
+        webenv: "MCID_123+XYZ=",
+        queryKey: "1",
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get("retstart")).toBe("400");
+      expect(params.get("retmax")).toBe("200");
+      expect(params.get("WebEnv")).toBe("MCID_123+XYZ=");
+      expect(params.get("query_key")).toBe("1");
+    });
+
+    it("should add a date range with its date type", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildSearchUrl("cancer", 10, {
+        mindate: "2020/01/01",
+        maxdate: "2020/06/30",
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get("datetype")).toBe("pdat");
+      expect(params.get("mindate")).toBe("2020/01/01");
+      expect(params.get("maxdate")).toBe("2020/06/30");
+    });
+
+    it("should omit optional parameters by default", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildSearchUrl("cancer", 10);
+
+      expect(url).not.toContain("retstart");
+      expect(url).not.toContain("WebEnv");
+      expect(url).not.toContain("query_key");
+      expect(url).not.toContain("mindate");
+    });
+  });
+
+  describe("buildSearchUrl sorting and date filters", () => {
+    const builder = new PubMedURLBuilder("test@example.com", "");
+
+    it("should add the sort order", () => {
+      const url = builder.buildSearchUrl("cancer", 10, { sort: "pub_date" });
+
+      expect(new URL(url).searchParams.get("sort")).toBe("pub_date");
+    });
+
+    it("should add a relative date with the requested date type", () => {
+      const url = builder.buildSearchUrl("cancer", 10, {
+        datetype: "edat",
+        reldate: 30,
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get("datetype")).toBe("edat");
+      expect(params.get("reldate")).toBe("30");
+      expect(params.get("mindate")).toBeNull();
+    });
+
+    it("should accept year and month precision dates", () => {
+      const url = builder.buildSearchUrl("cancer", 10, {
+        datetype: "mdat",
+        mindate: "2019",
+        maxdate: "2020/6",
+      });
+
+      const params = new URL(url).searchParams;
+      expect(params.get("datetype")).toBe("mdat");
+      expect(params.get("mindate")).toBe("2019");
+      expect(params.get("maxdate")).toBe("2020/6");
+    });
+
+    it("should omit the date type without a date filter", () => {
+      const url = builder.buildSearchUrl("cancer", 10, { datetype: "edat" });
+
+      expect(url).not.toContain("datetype");
+    });
+
+    it("should reject an unknown sort order", () => {
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, { sort: "date" as any })
+      ).toThrow('Invalid sort order "date"');
+    });
+
+    it("should reject an unknown date type", () => {
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, {
+          datetype: "cdat" as any,
+          reldate: 7,
+        })
+      ).toThrow('Invalid date type "cdat"');
+    });
+
+    it("should require mindate and maxdate together", () => {
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, { mindate: "2020" })
+      ).toThrow("mindate and maxdate must be given together");
+    });
+
+    it("should reject malformed dates", () => {
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, {
+          mindate: "2020-01-01",
+          maxdate: "2020/12/31",
+        })
+      ).toThrow('Invalid date "2020-01-01"');
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, {
+          mindate: "2020/13",
+          maxdate: "2021",
+        })
+      ).toThrow('Invalid date "2020/13"');
+    });
+
+    it("should reject a reldate that is not a positive integer", () => {
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, { reldate: 0 })
+      ).toThrow("Invalid reldate 0");
+      expect(() =>
+        builder.buildSearchUrl("cancer", 10, { reldate: 1.5 })
+      ).toThrow("Invalid reldate 1.5");
+    });
+  });
+
   describe("buildFetchUrl", () => {
     it("should build a basic fetch URL with uid and webenv", () => {
       const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
@@ -141,6 +267,180 @@ describe("PubMedURLBuilder", () => {
     });
   });
 
+  describe("buildFetchByIdsUrl", () => {
+    it("should build a fetch URL listing all IDs without a webenv", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildFetchByIdsUrl(["12345678", "87654321"]);
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?"
+      );
+      expect(url).toContain("db=pubmed");
+      expect(url).toContain("retmode=xml");
+      expect(url).toContain("id=12345678,87654321");
+      expect(url).not.toContain("webenv");
+      expect(url).toContain("email=test%40example.com");
+      expect(url).toContain("api_key=test-api-key");
+    });
+
+    it("should not include API key when empty string", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildFetchByIdsUrl(["12345678"]);
+
+      expect(url).not.toContain("api_key");
+    });
+  });
+
+  describe("buildHistoryFetchUrl", () => {
+    it("should build a fetch URL for a slice of History server results", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildHistoryFetchUrl(
+        "MCID_123ABC+XYZ=",
+        "1",
+        200,
+        50
+      );
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?"
+      );
+      expect(url).toContain("db=pubmed");
+      expect(url).toContain("retmode=xml");
+      expect(url).toContain("query_key=1");
+      expect(url).toContain("WebEnv=MCID_123ABC%2BXYZ%3D");
+      expect(url).toContain("retstart=200");
+      expect(url).toContain("retmax=50");
+      expect(url).not.toContain("id=");
+      expect(url).toContain("api_key=test-api-key");
+    });
+  });
+
+  describe("buildSummaryByIdsUrl", () => {
+    it("should build a JSON summary URL listing all IDs", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildSummaryByIdsUrl(["12345", "67890"]);
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?"
+      );
+      const params = new URL(url).searchParams;
+      expect(params.get("db")).toBe("pubmed");
+      expect(params.get("retmode")).toBe("json");
+      expect(params.get("version")).toBe("2.0");
+      expect(params.get("id")).toBe("12345,67890");
+      expect(params.get("email")).toBe("test@example.com");
+      expect(params.get("api_key")).toBe("test-api-key");
+    });
+  });
+
+  describe("buildHistorySummaryUrl", () => {
+    it("should build a summary URL for a slice of History server results", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildHistorySummaryUrl(
+        "MCID_123ABC+XYZ=",
+        "1",
+        200,
+        50
+      );
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi?"
+      );
+      expect(url).toContain("retmode=json");
+      expect(url).toContain("query_key=1");
+      expect(url).toContain("WebEnv=MCID_123ABC%2BXYZ%3D");
+      expect(url).toContain("retstart=200");
+      expect(url).toContain("retmax=50");
+      expect(url).not.toContain("id=");
+      expect(url).not.toContain("api_key");
+    });
+  });
+
+  describe("buildLinkUrl", () => {
+    it("should build a JSON link URL with link name and command", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildLinkUrl(
+        ["33301246"],
+        "pubmed_pubmed",
+        "neighbor_score"
+      );
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/elink.fcgi?"
+      );
+      const params = new URL(url).searchParams;
+      expect(params.get("dbfrom")).toBe("pubmed");
+      expect(params.get("db")).toBe("pubmed");
+      expect(params.get("retmode")).toBe("json");
+      expect(params.get("id")).toBe("33301246");
+      expect(params.get("linkname")).toBe("pubmed_pubmed");
+      expect(params.get("cmd")).toBe("neighbor_score");
+      expect(params.get("email")).toBe("test@example.com");
+      expect(params.get("api_key")).toBe("test-api-key");
+    });
+
+    it("should default to the neighbor command", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildLinkUrl(["33301246"], "pubmed_pubmed");
+
+      expect(new URL(url).searchParams.get("cmd")).toBe("neighbor");
+    });
+
+    it("should repeat the id parameter per UID", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildLinkUrl(
+        ["33301246", "34233097"],
+        "pubmed_pubmed_citedin"
+      );
+
+      expect(new URL(url).searchParams.getAll("id")).toEqual([
+        "33301246",
+        "34233097",
+      ]);
+    });
+  });
+
+  describe("buildSpellUrl", () => {
+    it("should build a spelling URL with the encoded query", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildSpellUrl("asthmaa & treatmnt");
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/espell.fcgi?"
+      );
+      const params = new URL(url).searchParams;
+      expect(params.get("db")).toBe("pubmed");
+      expect(params.get("term")).toBe("asthmaa & treatmnt");
+      expect(params.get("email")).toBe("test@example.com");
+      expect(params.get("api_key")).toBe("test-api-key");
+    });
+  });
+
+  describe("buildInfoUrl", () => {
+    it("should build an EInfo URL for PubMed by default", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "test-api-key");
+      const url = builder.buildInfoUrl();
+
+      expect(url).toContain(
+        "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/einfo.fcgi?"
+      );
+      const params = new URL(url).searchParams;
+      expect(params.get("db")).toBe("pubmed");
+      expect(params.get("retmode")).toBe("json");
+      expect(params.get("version")).toBe("2.0");
+      expect(params.get("email")).toBe("test@example.com");
+      expect(params.get("api_key")).toBe("test-api-key");
+    });
+
+    it("should build an EInfo URL for another database without API key", () => {
+      const builder = new PubMedURLBuilder("test@example.com", "");
+      const url = builder.buildInfoUrl("pmc");
+
+      expect(new URL(url).searchParams.get("db")).toBe("pmc");
+      expect(url).not.toContain("api_key");
+    });
+  });
+
   describe("constructor", () => {
     it("should create instance with email and API key", () => {
       const builder = new PubMedURLBuilder("test@example.com", "test-api-key");